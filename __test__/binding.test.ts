@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest'
+import request from 'supertest'
+import { Http, Response } from 'farrow-http'
+import { cookieSessionStore } from '../src/cookie'
+import { memorySessionStore } from '../src/memory'
+import { createKeyValueSessionStore, memoryKeyValueBackend } from '../src/kv'
+import { SessionBindingOptions, SessionHooks, SessionLimitOptions, SessionStore } from '../src/auth'
+import { ipSubnet } from '../src/client'
+import { createSessionApp, toRequestCookies } from './helpers'
+
+type UserData = { name?: string }
+
+const createApp = (
+  store: SessionStore<UserData, string>,
+  binding?: SessionBindingOptions,
+  hooks?: SessionHooks<UserData>,
+  options?: { defaultData?: UserData; lazy?: boolean; maxSessionsPerUser?: SessionLimitOptions<UserData> },
+) => {
+  const { app, sessionCtx } = createSessionApp({ sessionStore: store, binding, hooks, ...options })
+  app.use((request) => {
+    if (request.pathname === '/login') {
+      sessionCtx.set({ name: 'Alice' })
+    }
+    return Response.json({ userData: sessionCtx.get() ?? null })
+  })
+  return app
+}
+
+const setCookies = (res: request.Response) => (res.headers['set-cookie'] ?? []) as unknown as string[]
+
+const login = async (app: ReturnType<typeof Http>, userAgent = 'laptop') => {
+  const res = await request(app.server()).get('/login').set('User-Agent', userAgent).expect(200)
+  return toRequestCookies(setCookies(res))
+}
+
+describe('Session Binding', () => {
+  describe('ipSubnet', () => {
+    it('should keep the /24 of IPv4 and the /64 of IPv6 addresses', () => {
+      expect(ipSubnet('203.0.113.7')).toBe('203.0.113.0/24')
+      expect(ipSubnet('::ffff:203.0.113.7')).toBe('203.0.113.0/24')
+      expect(ipSubnet('2001:db8:85a3::8a2e:370:7334')).toBe('2001:db8:85a3:0::/64')
+      expect(ipSubnet('fe80::1%eth0')).toBe('fe80:0:0:0::/64')
+    })
+  })
+
+  const stores: Array<[string, () => SessionStore<UserData, string>]> = [
+    ['cookieSessionStore', () => cookieSessionStore<UserData>({ secret: 'test-secret' })],
+    ['memorySessionStore', () => memorySessionStore<UserData>({ sweepInterval: 0 })],
+    ['createKeyValueSessionStore', () => createKeyValueSessionStore<UserData>({ backend: memoryKeyValueBackend() })],
+  ]
+
+  for (const [name, createStore] of stores) {
+    it(`should reject a session replayed from another client with ${name}`, async () => {
+      const onFingerprintMismatch = vi.fn()
+      const app = createApp(createStore(), { fingerprint: 'user-agent' }, { onFingerprintMismatch })
+      const cookies = await login(app)
+
+      const res1 = await request(app.server()).get('/').set('Cookie', cookies).set('User-Agent', 'laptop').expect(200)
+      expect(res1.body.userData).toEqual({ name: 'Alice' })
+
+      const res2 = await request(app.server()).get('/').set('Cookie', cookies).set('User-Agent', 'attacker').expect(401)
+      expect(res2.body).toEqual({ error: 'Session Fingerprint Mismatch' })
+      expect(onFingerprintMismatch).toHaveBeenCalledTimes(1)
+      expect(onFingerprintMismatch.mock.calls[0]![0]).toMatchObject({ action: 'reject', userData: { name: 'Alice' } })
+
+      // 被拒绝的请求不影响原客户端
+      await request(app.server()).get('/').set('Cookie', cookies).set('User-Agent', 'laptop').expect(200)
+    })
+  }
+
+  it('should destroy the session and continue anonymously with reauthenticate', async () => {
+    const app = createApp(memorySessionStore<UserData>({ sweepInterval: 0 }), {
+      fingerprint: 'user-agent',
+      onMismatch: 'reauthenticate',
+    })
+    const cookies = await login(app)
+
+    const res1 = await request(app.server()).get('/').set('Cookie', cookies).set('User-Agent', 'attacker').expect(200)
+    expect(res1.body.userData).toEqual({})
+
+    // 原客户端也需要重新登录
+    const res2 = await request(app.server()).get('/').set('Cookie', cookies).set('User-Agent', 'laptop').expect(200)
+    expect(res2.body.userData).toEqual({})
+  })
+
+  it('should fall back to the default data with reauthenticate in lazy mode', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const app = createApp(store, { fingerprint: 'user-agent', onMismatch: 'reauthenticate' }, undefined, {
+      defaultData: { name: 'guest' },
+      lazy: true,
+    })
+    const cookies = await login(app)
+
+    const res = await request(app.server()).get('/').set('Cookie', cookies).set('User-Agent', 'attacker').expect(200)
+    expect(res.body.userData).toEqual({ name: 'guest' })
+    // lazy 模式下未修改数据，不会创建新的 session
+    expect(store.size).toBe(0)
+  })
+
+  it('should report the session limit when regenerate cannot make room', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0, userIdOf: (userData) => userData.name })
+    const app = createApp(store, { fingerprint: 'user-agent', onMismatch: 'regenerate' }, undefined, {
+      maxSessionsPerUser: { limit: 1, strategy: 'reject' },
+    })
+    const cookies = await login(app, 'laptop')
+    await login(app, 'phone')
+
+    const res = await request(app.server()).get('/').set('Cookie', cookies).set('User-Agent', 'attacker').expect(409)
+    expect(res.body.error).toBe('Session Limit Exceeded')
+  })
+
+  it('should move the data to a new session id with regenerate', async () => {
+    const onRegenerate = vi.fn()
+    const app = createApp(
+      memorySessionStore<UserData>({ sweepInterval: 0 }),
+      { fingerprint: 'user-agent', onMismatch: 'regenerate' },
+      { onRegenerate },
+    )
+    const cookies = await login(app)
+
+    const res1 = await request(app.server()).get('/').set('Cookie', cookies).set('User-Agent', 'phone').expect(200)
+    expect(res1.body.userData).toEqual({ name: 'Alice' })
+    expect(onRegenerate).toHaveBeenCalledTimes(1)
+    const newCookies = toRequestCookies(setCookies(res1))
+    expect(newCookies).not.toEqual(cookies)
+
+    // 新的 session 绑定到当前客户端，旧的凭证失效
+    const res2 = await request(app.server()).get('/').set('Cookie', newCookies).set('User-Agent', 'phone').expect(200)
+    expect(res2.body.userData).toEqual({ name: 'Alice' })
+    const res3 = await request(app.server()).get('/').set('Cookie', cookies).set('User-Agent', 'laptop').expect(200)
+    expect(res3.body.userData).toEqual({})
+  })
+
+  it('should only emit the hook with report', async () => {
+    const onFingerprintMismatch = vi.fn()
+    const app = createApp(
+      memorySessionStore<UserData>({ sweepInterval: 0 }),
+      { fingerprint: 'user-agent', onMismatch: 'report' },
+      { onFingerprintMismatch },
+    )
+    const cookies = await login(app)
+
+    const res = await request(app.server()).get('/').set('Cookie', cookies).set('User-Agent', 'attacker').expect(200)
+    expect(res.body.userData).toEqual({ name: 'Alice' })
+    expect(onFingerprintMismatch).toHaveBeenCalledWith(expect.objectContaining({ action: 'report' }))
+  })
+
+  it('should allow IP changes within the same subnet with ip-subnet', async () => {
+    const app = createApp(memorySessionStore<UserData>({ sweepInterval: 0 }), {
+      fingerprint: 'ip-subnet',
+      trustProxy: true,
+    })
+    const res1 = await request(app.server()).get('/login').set('X-Forwarded-For', '203.0.113.7').expect(200)
+    const cookies = toRequestCookies(setCookies(res1))
+
+    await request(app.server()).get('/').set('Cookie', cookies).set('X-Forwarded-For', '203.0.113.99').expect(200)
+    await request(app.server()).get('/').set('Cookie', cookies).set('X-Forwarded-For', '198.51.100.1').expect(401)
+  })
+
+  it('should use a custom fingerprint function', async () => {
+    const app = createApp(memorySessionStore<UserData>({ sweepInterval: 0 }), {
+      fingerprint: (request) => String(request.headers?.['x-device-id'] ?? ''),
+    })
+    const res1 = await request(app.server()).get('/login').set('X-Device-Id', 'device-1').expect(200)
+    const cookies = toRequestCookies(setCookies(res1))
+
+    await request(app.server()).get('/').set('Cookie', cookies).set('X-Device-Id', 'device-1').expect(200)
+    await request(app.server()).get('/').set('Cookie', cookies).set('X-Device-Id', 'device-2').expect(401)
+  })
+
+  it('should accept sessions created before binding was enabled', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const cookies = await login(createApp(store))
+
+    const app = createApp(store, { fingerprint: 'user-agent' })
+    const res = await request(app.server()).get('/').set('Cookie', cookies).set('User-Agent', 'attacker').expect(200)
+    expect(res.body.userData).toEqual({ name: 'Alice' })
+  })
+})
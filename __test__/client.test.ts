@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import request from 'supertest'
+import { Response } from 'farrow-http'
+import { cookieSessionStore } from '../src/cookie'
+import { useSessionMeta } from '../src/meta'
+import { memorySessionStore } from '../src/memory'
+import { createKeyValueSessionStore, memoryKeyValueBackend } from '../src/kv'
+import { SessionStore } from '../src/auth'
+import { parseDevice } from '../src/client'
+import { createSessionApp, toRequestCookies } from './helpers'
+
+type UserData = { visits: number }
+
+const chromeOnMac =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+
+const createApp = (store: SessionStore<UserData, string>) => {
+  const { app, sessionCtx } = createSessionApp({ sessionStore: store })
+  app.use(() => {
+    sessionCtx.set({ visits: (sessionCtx.get()?.visits ?? 0) + 1 })
+    return Response.json({ meta: useSessionMeta() ?? null })
+  })
+  return app
+}
+
+describe('Session Client Info', () => {
+  describe('parseDevice', () => {
+    it('should label common browsers and systems', () => {
+      expect(parseDevice(chromeOnMac)).toBe('Chrome on macOS')
+      expect(
+        parseDevice(
+          'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+        ),
+      ).toBe('Safari on iPhone')
+      expect(
+        parseDevice(
+          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0',
+        ),
+      ).toBe('Edge on Windows')
+      expect(parseDevice('Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0')).toBe('Firefox on Linux')
+      expect(parseDevice('Googlebot/2.1 (+http://www.google.com/bot.html)')).toBe('Bot')
+      expect(parseDevice('curl/8.0.1')).toBeUndefined()
+      expect(parseDevice(undefined)).toBeUndefined()
+    })
+  })
+
+  const stores: Array<[string, (options: { trustProxy?: boolean; captureClientInfo?: boolean }) => SessionStore<UserData, string>]> = [
+    ['cookieSessionStore', (options) => cookieSessionStore<UserData>({ secret: 'test-secret', ...options })],
+    ['memorySessionStore', (options) => memorySessionStore<UserData>({ sweepInterval: 0, ...options })],
+    [
+      'createKeyValueSessionStore',
+      (options) => createKeyValueSessionStore<UserData>({ backend: memoryKeyValueBackend(), ...options }),
+    ],
+  ]
+
+  for (const [name, createStore] of stores) {
+    it(`should capture and persist client info with ${name}`, async () => {
+      const app = createApp(createStore({ trustProxy: true }))
+
+      const res1 = await request(app.server())
+        .get('/')
+        .set('User-Agent', chromeOnMac)
+        .set('X-Forwarded-For', '203.0.113.7, 10.0.0.1')
+        .expect(200)
+      expect(res1.body.meta).toMatchObject({
+        sessionId: expect.any(String),
+        createdAt: expect.any(Number),
+        lastSeenAt: expect.any(Number),
+        ip: '203.0.113.7',
+        userAgent: chromeOnMac,
+        device: 'Chrome on macOS',
+      })
+
+      // 后续请求来自其他客户端时，仍然返回创建 session 时记录的信息
+      const res2 = await request(app.server())
+        .get('/')
+        .set('Cookie', toRequestCookies(res1.headers['set-cookie'] as unknown as string[]))
+        .set('User-Agent', 'curl/8.0.1')
+        .expect(200)
+      expect(res2.body.meta).toMatchObject({
+        sessionId: res1.body.meta.sessionId,
+        createdAt: res1.body.meta.createdAt,
+        ip: '203.0.113.7',
+        userAgent: chromeOnMac,
+        device: 'Chrome on macOS',
+      })
+    })
+  }
+
+  it('should ignore X-Forwarded-For unless trustProxy is set', async () => {
+    const app = createApp(memorySessionStore<UserData>({ sweepInterval: 0 }))
+    const res = await request(app.server()).get('/').set('X-Forwarded-For', '203.0.113.7').expect(200)
+    expect(res.body.meta.ip).not.toBe('203.0.113.7')
+    expect(res.body.meta.ip).toMatch(/127\.0\.0\.1|::1/)
+  })
+
+  it('should not capture client info when disabled', async () => {
+    const app = createApp(memorySessionStore<UserData>({ sweepInterval: 0, captureClientInfo: false }))
+    const res = await request(app.server()).get('/').set('User-Agent', chromeOnMac).expect(200)
+    expect(res.body.meta).not.toHaveProperty('ip')
+    expect(res.body.meta).not.toHaveProperty('userAgent')
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import request from 'supertest'
+import { Http, Response } from 'farrow-http'
+import { composeParsers } from '../src/compose'
+import { cookieSessionParser } from '../src/cookie'
+import { headerSessionParser } from '../src/header'
+import { memorySessionStore } from '../src/memory'
+import { createSessionCtx, createFarrowSession } from '../src/auth'
+
+describe('Compose Module', () => {
+  const createApp = () => {
+    const sessionCtx = createSessionCtx<{ counter: number } | undefined>(undefined)
+    const app = Http()
+    app.use(
+      createFarrowSession({
+        sessionUserDataCtx: sessionCtx,
+        autoSave: true,
+        autoCreateOnMissing: true,
+        sessionParser: composeParsers([cookieSessionParser(), headerSessionParser()]),
+        // rolling 模式下每次响应都会重新下发凭证
+        sessionStore: memorySessionStore<{ counter: number } | undefined>({ sweepInterval: 0, rolling: true }),
+      }),
+    )
+    app.use(() => {
+      sessionCtx.set({ counter: (sessionCtx.get()?.counter ?? 0) + 1 })
+      return Response.json({ userData: sessionCtx.get() })
+    })
+    return app
+  }
+
+  it('should throw error without parsers', () => {
+    expect(() => composeParsers([])).toThrow('composeParsers requires at least one SessionParser')
+  })
+
+  it('should use the first parser for new sessions', async () => {
+    const app = createApp()
+
+    const res = await request(app.server()).get('/').expect(200)
+    const cookies = res.headers['set-cookie'] as unknown as string[]
+    expect(cookies.some((cookie) => cookie.startsWith('sess:k='))).toBe(true)
+    expect(res.headers['x-session-id']).toBeUndefined()
+  })
+
+  it('should answer through the transport the client used', async () => {
+    const app = createApp()
+
+    // 浏览器客户端
+    const res1 = await request(app.server()).get('/').expect(200)
+    const cookies = res1.headers['set-cookie'] as unknown as string[]
+    const res2 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual({ counter: 2 })
+    expect(res2.headers['x-session-id']).toBeUndefined()
+
+    // 使用请求头的服务端客户端
+    const sessionId = cookies.find((cookie) => cookie.startsWith('sess:k='))!.split(';')[0]!.slice('sess:k='.length)
+    const res3 = await request(app.server()).get('/').set('X-Session-Id', sessionId).expect(200)
+    expect(res3.body.userData).toEqual({ counter: 3 })
+    expect(res3.headers['x-session-id']).toBe(sessionId)
+    expect(res3.headers['set-cookie']).toBeUndefined()
+  })
+})
@@ -1,14 +1,18 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createCipheriv, createHash, createHmac } from 'crypto'
 import request from 'supertest'
 import { Http, Response } from 'farrow-http'
 import { 
   cookieSessionParser, 
   cookieSessionStore, 
-  sessionMetaDataCtx,
-  idToIv 
+  idToIv,
+  SessionDataTooLargeError,
+  CookieCompression,
 } from '../src/cookie'
-import { createAuthCtx, createFarrowAuth } from '../src/auth'
+import { createAuthCtx, createFarrowAuth, createSessionCtx, createFarrowSession } from '../src/auth'
+import { sessionMetaDataCtx } from '../src/meta'
 import { oneMinute } from '../src/utils'
+import { toRequestCookies } from './helpers'
 
 describe('Cookie Module', () => {
   beforeEach(() => {
@@ -165,6 +169,87 @@ describe('Cookie Module', () => {
       expect(setCookie[0]).toContain('expires=Thu, 01 Jan 1970')
       expect(res.body).toEqual({ removed: true })
     })
+
+    it('should throw error if signed is used without secrets', () => {
+      expect(() => cookieSessionParser({ signed: { secrets: [] } })).toThrow(
+        'At least one secret is required for signed cookieSessionParser.'
+      )
+    })
+
+    it('should sign sessionId and verify it on the next request', async () => {
+      const parser = cookieSessionParser({ signed: { secrets: ['secret-1'] } })
+      
+      const app = Http()
+      app.use(async (request) => {
+        if (request.pathname === '/set') {
+          sessionMetaDataCtx.set({ sessionId: 'test-session-id', expiresTime: Date.now() + 60000 })
+          const response = await parser.set()
+          return response.json({ success: true })
+        }
+        const sessionId = await parser.get(request)
+        return Response.json({ sessionId })
+      })
+      
+      const res1 = await request(app.server()).get('/set').expect(200)
+      const setCookie = res1.headers['set-cookie'][0]
+      const cookieValue = setCookie.split(';')[0].slice('sess:k='.length)
+      expect(cookieValue).toMatch(/^[^.]+\.[\w-]+$/)
+      
+      const res2 = await request(app.server())
+        .get('/get')
+        .set('Cookie', `sess:k=${cookieValue}`)
+        .expect(200)
+      expect(res2.body).toEqual({ sessionId: 'test-session-id' })
+    })
+
+    it('should reject tampered or unsigned cookies', async () => {
+      const parser = cookieSessionParser({ signed: { secrets: ['secret-1'] } })
+      const encodedId = Buffer.from('test-session-id').toString('base64')
+      const forgedId = Buffer.from('other-session-id').toString('base64')
+      const signature = createHmac('sha256', 'secret-1').update(encodedId).digest('base64url')
+      
+      const app = Http()
+      app.use(async (request) => {
+        const sessionId = await parser.get(request)
+        return Response.json({ sessionId })
+      })
+      
+      for (const cookieValue of [encodedId, `${forgedId}.${signature}`, `${encodedId}.invalid`]) {
+        const res = await request(app.server())
+          .get('/')
+          .set('Cookie', `sess:k=${cookieValue}`)
+          .expect(200)
+        expect(res.body).toEqual({ sessionId: null })
+      }
+    })
+
+    it('should verify cookies signed with rotated secrets', async () => {
+      const parser = cookieSessionParser({ signed: { secrets: ['secret-2', 'secret-1'] } })
+      const encodedId = Buffer.from('test-session-id').toString('base64')
+      const oldSignature = createHmac('sha256', 'secret-1').update(encodedId).digest('base64url')
+      
+      const app = Http()
+      app.use(async (request) => {
+        if (request.pathname === '/set') {
+          sessionMetaDataCtx.set({ sessionId: 'test-session-id', expiresTime: Date.now() + 60000 })
+          const response = await parser.set()
+          return response.json({ success: true })
+        }
+        const sessionId = await parser.get(request)
+        return Response.json({ sessionId })
+      })
+      
+      const res1 = await request(app.server())
+        .get('/get')
+        .set('Cookie', `sess:k=${encodedId}.${oldSignature}`)
+        .expect(200)
+      expect(res1.body).toEqual({ sessionId: 'test-session-id' })
+      
+      // 新的签名使用第一个密钥
+      const res2 = await request(app.server()).get('/set').expect(200)
+      const newSignature = createHmac('sha256', 'secret-2').update(encodedId).digest('base64url')
+      expect(res2.headers['set-cookie'][0]).toContain(`${encodedId}.${newSignature}`)
+    })
   })
 
   describe('cookieSessionStore', () => {
@@ -471,6 +556,399 @@ describe('Cookie Module', () => {
     })
   })
 
+  describe('cookieSessionStore encryption', () => {
+    type UserData = { id: string }
+    
+    const createApp = (store: ReturnType<typeof cookieSessionStore<UserData>>, autoSave = true) => {
+      const sessionCtx = createSessionCtx<UserData>({ id: '' })
+      const app = Http()
+      app.use(createFarrowSession({
+        sessionUserDataCtx: sessionCtx,
+        autoSave,
+        autoCreateOnMissing: true,
+        sessionParser: cookieSessionParser(),
+        sessionStore: store,
+      }))
+      app.use(() => {
+        if (!sessionCtx.get()?.id) sessionCtx.set({ id: 'user-1' })
+        return Response.json({ userData: sessionCtx.get() })
+      })
+      return app
+    }
+    
+    // 取出响应中最后设置的同名 cookie
+    const cookieValue = (cookies: string[], name: string) => {
+      const cookie = cookies.filter((item) => item.startsWith(`${name}=`)).pop()
+      return cookie?.split(';')[0]!.slice(name.length + 1)
+    }
+    
+    it('should encrypt with aes-256-gcm and a random iv', async () => {
+      const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret' }))
+      
+      const res1 = await request(app.server()).get('/').expect(200)
+      const res2 = await request(app.server()).get('/').expect(200)
+      const data1 = cookieValue(res1.headers['set-cookie'], 'sess:data')!
+      const data2 = cookieValue(res2.headers['set-cookie'], 'sess:data')!
+      
+      expect(data1.split('.')).toHaveLength(5)
+      expect(data1.startsWith('v1.')).toBe(true)
+      expect(data1.split('.')[2]).not.toBe(data2.split('.')[2])
+    })
+    
+    it('should reject tampered session data', async () => {
+      const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret' }), false)
+      
+      const res1 = await request(app.server()).get('/').expect(200)
+      const cookies: string[] = res1.headers['set-cookie']
+      const sessionId = cookieValue(cookies, 'sess:k')!
+      const segments = cookieValue(cookies, 'sess:data')!.split('.')
+      const ciphertext = Buffer.from(segments[4]!, 'base64url')
+      ciphertext[0] = ciphertext[0]! ^ 1
+      segments[4] = ciphertext.toString('base64url')
+      
+      const res2 = await request(app.server())
+        .get('/')
+        .set('Cookie', [`sess:k=${sessionId}`, `sess:data=${segments.join('.')}`])
+        .expect(200)
+      // 数据被篡改后会创建新的 session
+      expect(cookieValue(res2.headers['set-cookie'], 'sess:k')).not.toBe(sessionId)
+    })
+    
+    it('should decrypt with old secrets and re-encrypt with the current one', async () => {
+      const oldApp = createApp(cookieSessionStore<UserData>({ secret: 'old-secret' }))
+      const res1 = await request(oldApp.server()).get('/').expect(200)
+      const cookies: string[] = res1.headers['set-cookie']
+      const sessionId = cookieValue(cookies, 'sess:k')!
+      const oldData = cookieValue(cookies, 'sess:data')!
+      
+      const rotatedApp = createApp(cookieSessionStore<UserData>({ secrets: ['new-secret', 'old-secret'] }), false)
+      const res2 = await request(rotatedApp.server())
+        .get('/')
+        .set('Cookie', [`sess:k=${sessionId}`, `sess:data=${oldData}`])
+        .expect(200)
+      expect(res2.body.userData).toEqual({ id: 'user-1' })
+      const newData = cookieValue(res2.headers['set-cookie'], 'sess:data')!
+      expect(newData.split('.')[1]).not.toBe(oldData.split('.')[1])
+      
+      // 移除旧密钥后，重新加密的数据依然可以读取
+      const newApp = createApp(cookieSessionStore<UserData>({ secrets: ['new-secret'] }), false)
+      const res3 = await request(newApp.server())
+        .get('/')
+        .set('Cookie', [`sess:k=${sessionId}`, `sess:data=${newData}`])
+        .expect(200)
+      expect(res3.body.userData).toEqual({ id: 'user-1' })
+      expect(res3.headers['set-cookie']).toBeUndefined()
+    })
+    
+    it('should read legacy aes-256-cbc cookies and upgrade them', async () => {
+      const sessionId = 'legacy-session-id'
+      const key = createHash('sha256').update('test-secret').digest()
+      const cipher = createCipheriv('aes-256-cbc', key, idToIv(sessionId))
+      const payload = JSON.stringify({ _data: { id: 'legacy-user' }, _expires: Date.now() + 60000 })
+      const legacyData = cipher.update(payload, 'utf8', 'base64') + cipher.final('base64')
+      
+      const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret' }), false)
+      const res = await request(app.server())
+        .get('/')
+        .set('Cookie', [
+          `sess:k=${Buffer.from(sessionId).toString('base64')}`,
+          `sess:data=${encodeURIComponent(legacyData)}`,
+        ])
+        .expect(200)
+      
+      expect(res.body.userData).toEqual({ id: 'legacy-user' })
+      expect(cookieValue(res.headers['set-cookie'], 'sess:data')!.startsWith('v1.')).toBe(true)
+    })
+  })
+
+  describe('cookieSessionStore chunking', () => {
+    type UserData = { payload: string }
+    
+    const createApp = (store: ReturnType<typeof cookieSessionStore<UserData>>) => {
+      const sessionCtx = createSessionCtx<UserData>({ payload: '' })
+      const app = Http()
+      app.use(createFarrowSession({
+        sessionUserDataCtx: sessionCtx,
+        autoSave: true,
+        autoCreateOnMissing: true,
+        sessionParser: cookieSessionParser(),
+        sessionStore: store,
+      }))
+      app.use(async (request) => {
+        if (request.pathname === '/destroy') {
+          await sessionCtx.destroy()
+          return Response.json({ ok: true })
+        }
+        const size = request.headers?.['x-payload-size']
+        if (typeof size === 'string') sessionCtx.set({ payload: 'x'.repeat(Number(size)) })
+        return Response.json({ length: sessionCtx.get()?.payload?.length ?? 0 })
+      })
+      return app
+    }
+    
+    const cookieNames = (cookies: string[]) => cookies.map((cookie) => cookie.split('=')[0])
+    const clearedNames = (cookies: string[]) =>
+      cookies.filter((cookie) => /^[^=]+=(;|$)/.test(cookie)).map((cookie) => cookie.split('=')[0])
+    
+    it('should split oversized data into chunk cookies and reassemble them', async () => {
+      const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret', chunkSize: 1000 }))
+      
+      const res1 = await request(app.server()).get('/').set('X-Payload-Size', '2500').expect(200)
+      const cookies: string[] = res1.headers['set-cookie']
+      expect(cookieNames(cookies)).toEqual(expect.arrayContaining(['sess:data.0', 'sess:data.1', 'sess:data.2']))
+      // create 写入的单个 cookie 已被清除
+      expect(toRequestCookies(cookies).some((cookie) => cookie.startsWith('sess:data='))).toBe(false)
+      for (const cookie of cookies.filter((item) => item.startsWith('sess:data.'))) {
+        expect(cookie.split(';')[0]!.length).toBeLessThanOrEqual('sess:data.0='.length + 1000)
+      }
+      
+      const res2 = await request(app.server()).get('/').set('Cookie', toRequestCookies(cookies)).expect(200)
+      expect(res2.body).toEqual({ length: 2500 })
+    })
+    
+    it('should clean up stale chunks when data shrinks', async () => {
+      const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret', chunkSize: 1000 }))
+      
+      const res1 = await request(app.server()).get('/').set('X-Payload-Size', '2500').expect(200)
+      const cookies1 = toRequestCookies(res1.headers['set-cookie'])
+      
+      expect(cookies1.filter((cookie) => cookie.startsWith('sess:data.'))).toHaveLength(4)
+      
+      // 缩小为三个分块
+      const res2 = await request(app.server()).get('/').set('Cookie', cookies1).set('X-Payload-Size', '1500').expect(200)
+      expect(clearedNames(res2.headers['set-cookie'])).toEqual(['sess:data.3', 'sess:data'])
+      const cookies2 = toRequestCookies([...res1.headers['set-cookie'], ...res2.headers['set-cookie']])
+      
+      // 缩小为单个 cookie
+      const res3 = await request(app.server()).get('/').set('Cookie', cookies2).set('X-Payload-Size', '10').expect(200)
+      expect(clearedNames(res3.headers['set-cookie'])).toEqual(['sess:data.0', 'sess:data.1', 'sess:data.2'])
+      const cookies3 = toRequestCookies([...res1.headers['set-cookie'], ...res2.headers['set-cookie'], ...res3.headers['set-cookie']])
+      expect(cookies3.some((cookie) => cookie.startsWith('sess:data='))).toBe(true)
+      
+      const res4 = await request(app.server()).get('/').set('Cookie', cookies3).expect(200)
+      expect(res4.body).toEqual({ length: 10 })
+    })
+    
+    it('should clear all chunks on destroy', async () => {
+      const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret', chunkSize: 1000 }))
+      
+      const res1 = await request(app.server()).get('/').set('X-Payload-Size', '2500').expect(200)
+      const res2 = await request(app.server())
+        .get('/destroy')
+        .set('Cookie', toRequestCookies(res1.headers['set-cookie']))
+        .expect(200)
+      expect(clearedNames(res2.headers['set-cookie'])).toEqual(
+        expect.arrayContaining(['sess:data', 'sess:data.0', 'sess:data.1', 'sess:data.2', 'sess:data.3']),
+      )
+    })
+    
+    it('should treat incomplete chunks as an invalid session', async () => {
+      const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret', chunkSize: 1000 }))
+      
+      const res1 = await request(app.server()).get('/').set('X-Payload-Size', '2500').expect(200)
+      const cookies = toRequestCookies(res1.headers['set-cookie']).filter((cookie) => !cookie.startsWith('sess:data.1='))
+      
+      const res2 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+      expect(res2.body).toEqual({ length: 0 })
+    })
+    
+    it('should throw a clear error when data exceeds maxSize', async () => {
+      const store = cookieSessionStore<UserData>({ secret: 'test-secret', maxSize: 2000 })
+      const app = createApp(store)
+      
+      const res1 = await request(app.server()).get('/').set('X-Payload-Size', '100').expect(200)
+      expect(res1.body).toEqual({ length: 100 })
+      
+      const res2 = await request(app.server())
+        .get('/')
+        .set('Cookie', toRequestCookies(res1.headers['set-cookie']))
+        .set('X-Payload-Size', '5000')
+        .expect(500)
+      expect(res2.headers['set-cookie']).toBeUndefined()
+      
+      const error = new SessionDataTooLargeError(5100, 2000)
+      expect(error.message).toContain('limit is 2000')
+      expect(error).toBeInstanceOf(Error)
+    })
+    
+    it('should reject an invalid chunkSize', () => {
+      expect(() => cookieSessionStore({ secret: 'test-secret', chunkSize: 0 })).toThrow('chunkSize must be a positive number')
+    })
+  })
+  
+  describe('cookieSessionStore compression', () => {
+    type UserData = { roles: string[] }
+    const roles = Array.from({ length: 50 }, (_, index) => `organization:project-${index}:editor`)
+    
+    const createApp = (store: ReturnType<typeof cookieSessionStore<UserData>>) => {
+      const sessionCtx = createSessionCtx<UserData>({ roles: [] })
+      const app = Http()
+      app.use(createFarrowSession({
+        sessionUserDataCtx: sessionCtx,
+        autoSave: true,
+        autoCreateOnMissing: true,
+        sessionParser: cookieSessionParser(),
+        sessionStore: store,
+      }))
+      app.use(() => {
+        if (!sessionCtx.get()?.roles?.length) sessionCtx.set({ roles })
+        return Response.json({ userData: sessionCtx.get() })
+      })
+      return app
+    }
+    
+    // 取出响应中最后设置的同名 cookie
+    const cookieValue = (cookies: string[], name: string) => {
+      const cookie = cookies.filter((item) => item.startsWith(`${name}=`)).pop()
+      return cookie?.split(';')[0]!.slice(name.length + 1)
+    }
+    const requestCookies = (cookies: string[]) => [
+      `sess:k=${cookieValue(cookies, 'sess:k')}`,
+      `sess:data=${cookieValue(cookies, 'sess:data')}`,
+    ]
+    
+    it('should compress data before encryption and record the codec', async () => {
+      const plainApp = createApp(cookieSessionStore<UserData>({ secret: 'test-secret' }))
+      const plainData = cookieValue((await request(plainApp.server()).get('/').expect(200)).headers['set-cookie'], 'sess:data')!
+      
+      for (const compression of ['deflate', 'brotli'] as const) {
+        const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret', compression }))
+        const res1 = await request(app.server()).get('/').expect(200)
+        const data = cookieValue(res1.headers['set-cookie'], 'sess:data')!
+        
+        expect(data.startsWith('v2.')).toBe(true)
+        expect(data.split('.')).toHaveLength(6)
+        expect(data.split('.')[2]).toBe(compression)
+        expect(data.length).toBeLessThan(plainData.length / 2)
+        
+        const res2 = await request(app.server()).get('/').set('Cookie', requestCookies(res1.headers['set-cookie'])).expect(200)
+        expect(res2.body.userData).toEqual({ roles })
+      }
+    })
+    
+    it('should read uncompressed and compressed cookies side by side', async () => {
+      const plainApp = createApp(cookieSessionStore<UserData>({ secret: 'test-secret' }))
+      const compressedApp = createApp(cookieSessionStore<UserData>({ secret: 'test-secret', compression: 'deflate' }))
+      
+      const plainCookies = requestCookies((await request(plainApp.server()).get('/').expect(200)).headers['set-cookie'])
+      const compressedCookies = requestCookies((await request(compressedApp.server()).get('/').expect(200)).headers['set-cookie'])
+      
+      const res1 = await request(compressedApp.server()).get('/').set('Cookie', plainCookies).expect(200)
+      expect(res1.body.userData).toEqual({ roles })
+      
+      const res2 = await request(plainApp.server()).get('/').set('Cookie', compressedCookies).expect(200)
+      expect(res2.body.userData).toEqual({ roles })
+    })
+    
+    it('should reject an unknown codec in the envelope', async () => {
+      const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret', compression: 'deflate' }))
+      const res1 = await request(app.server()).get('/').expect(200)
+      const cookies = requestCookies(res1.headers['set-cookie'])
+      const sessionId = cookieValue(res1.headers['set-cookie'], 'sess:k')!
+      
+      const res2 = await request(app.server())
+        .get('/')
+        .set('Cookie', [cookies[0]!, cookies[1]!.replace('.deflate.', '.gzip.')])
+        .expect(200)
+      // 无法解码时会创建新的 session
+      expect(cookieValue(res2.headers['set-cookie'], 'sess:k')).not.toBe(sessionId)
+    })
+    
+    it('should reject an unsupported compression option', () => {
+      expect(() => cookieSessionStore({ secret: 'test-secret', compression: 'gzip' as CookieCompression })).toThrow(
+        'Unsupported compression: gzip',
+      )
+    })
+  })
+  
+  describe('cookieSessionStore absoluteMaxAge and idleTimeout', () => {
+    type UserData = { id: string }
+    
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+    })
+    
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+    
+    const createApp = (store: ReturnType<typeof cookieSessionStore<UserData>>) => {
+      const sessionCtx = createSessionCtx<UserData>({ id: '' })
+      const app = Http()
+      app.use(createFarrowSession({
+        sessionUserDataCtx: sessionCtx,
+        autoSave: true,
+        autoCreateOnMissing: true,
+        sessionParser: cookieSessionParser(),
+        sessionStore: store,
+      }))
+      app.use(() => {
+        if (!sessionCtx.get()?.id) sessionCtx.set({ id: 'user-1' })
+        return Response.json({ userData: sessionCtx.get(), sessionMeta: sessionMetaDataCtx.get() })
+      })
+      return app
+    }
+    
+    it('should expose createdAt in sessionMetaDataCtx', async () => {
+      const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret', rolling: true }))
+      const createdAt = Date.now()
+      
+      const res1 = await request(app.server()).get('/').expect(200)
+      expect(res1.body.sessionMeta.createdAt).toBe(createdAt)
+      
+      vi.advanceTimersByTime(10 * oneMinute * 1000)
+      const res2 = await request(app.server()).get('/').set('Cookie', toRequestCookies(res1.headers['set-cookie'])).expect(200)
+      expect(res2.body.sessionMeta.createdAt).toBe(createdAt)
+      // 处理请求时为保存的过期时间，响应前才续期
+      expect(res2.body.sessionMeta.expiresTime).toBe(createdAt + 30 * oneMinute * 1000)
+    })
+    
+    it('should force expiry after absoluteMaxAge regardless of rolling', async () => {
+      const app = createApp(cookieSessionStore<UserData>({
+        secret: 'test-secret',
+        rolling: true,
+        absoluteMaxAge: 60 * oneMinute * 1000,
+      }))
+      const createdAt = Date.now()
+      
+      let cookies = toRequestCookies((await request(app.server()).get('/').expect(200)).headers['set-cookie'])
+      const sessionId = cookies.find((cookie) => cookie.startsWith('sess:k='))
+      
+      for (let i = 0; i < 2; i++) {
+        vi.advanceTimersByTime(25 * oneMinute * 1000)
+        const res = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+        expect(res.body.userData).toEqual({ id: 'user-1' })
+        cookies = toRequestCookies([...cookies, ...res.headers['set-cookie']])
+      }
+      
+      // 第二次续期时过期时间被限制在创建后 60 分钟
+      vi.advanceTimersByTime(10 * oneMinute * 1000)
+      const res = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+      expect(toRequestCookies(res.headers['set-cookie']).find((cookie) => cookie.startsWith('sess:k='))).not.toBe(sessionId)
+      expect(res.body.sessionMeta.createdAt).toBe(createdAt + 60 * oneMinute * 1000)
+    })
+    
+    it('should invalidate the session after idleTimeout without activity', async () => {
+      const app = createApp(cookieSessionStore<UserData>({
+        secret: 'test-secret',
+        idleTimeout: 15 * oneMinute * 1000,
+        cookieOptions: { maxAge: 60 * oneMinute * 1000 },
+      }))
+      
+      let cookies = toRequestCookies((await request(app.server()).get('/').expect(200)).headers['set-cookie'])
+      const sessionId = cookies.find((cookie) => cookie.startsWith('sess:k='))
+      
+      vi.advanceTimersByTime(10 * oneMinute * 1000)
+      const res1 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+      expect(res1.body.sessionMeta.lastSeenAt).toBe(Date.now() - 10 * oneMinute * 1000)
+      cookies = toRequestCookies([...cookies, ...res1.headers['set-cookie']])
+      
+      vi.advanceTimersByTime(15 * oneMinute * 1000)
+      const res2 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+      expect(toRequestCookies(res2.headers['set-cookie']).find((cookie) => cookie.startsWith('sess:k='))).not.toBe(sessionId)
+    })
+  })
+  
   describe('Integration Tests', () => {
     it('should handle complete session lifecycle', async () => {
       const authCtx = createAuthCtx<{ 
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import request from 'supertest'
+import { Response } from 'farrow-http'
+import { memorySessionStore } from '../src/memory'
+import { csrfProtection, CsrfProtectionOptions } from '../src/csrf'
+import { createSessionApp, toRequestCookies } from './helpers'
+
+type UserData = { name?: string }
+
+const createApp = (options?: CsrfProtectionOptions) => {
+  const { app, sessionCtx } = createSessionApp({ sessionStore: memorySessionStore<UserData>({ sweepInterval: 0 }) })
+  const csrf = csrfProtection(sessionCtx, options)
+  app.use(csrf)
+  app.use(async (request) => {
+    if (request.pathname === '/token') {
+      return Response.json({ token: csrf.csrfToken() })
+    }
+    if (request.pathname === '/regenerate') {
+      await sessionCtx.regenerate()
+    }
+    if (request.pathname === '/regenerate-and-token') {
+      await sessionCtx.regenerate()
+      return Response.json({ token: csrf.csrfToken() })
+    }
+    return Response.json({ ok: true })
+  })
+  return app
+}
+
+// 将响应中设置的 cookie 合并到已有的 cookie 中
+const mergeCookies = (cookies: string[], setCookie: unknown) =>
+  toRequestCookies([...cookies, ...((setCookie ?? []) as string[])])
+
+const fetchToken = async (app: ReturnType<typeof createApp>, cookies: string[] = []) => {
+  const res = await request(app.server()).get('/token').set('Cookie', cookies).expect(200)
+  return { token: res.body.token as string, cookies: mergeCookies(cookies, res.headers['set-cookie']) }
+}
+
+describe('CSRF Protection', () => {
+  it('should reject unsafe requests without a token', async () => {
+    const app = createApp()
+    await request(app.server()).get('/').expect(200)
+    const res = await request(app.server()).post('/').expect(403)
+    expect(res.body).toEqual({ error: 'Invalid CSRF Token' })
+  })
+
+  it('should accept a token from the header or a form field', async () => {
+    const app = createApp()
+    const { token, cookies } = await fetchToken(app)
+
+    await request(app.server()).post('/').set('Cookie', cookies).set('X-CSRF-Token', token).expect(200)
+    await request(app.server()).post('/').set('Cookie', cookies).type('form').send({ _csrf: token }).expect(200)
+    await request(app.server()).post('/').set('Cookie', cookies).set('X-CSRF-Token', `${token}x`).expect(403)
+  })
+
+  it('should issue different tokens for the same secret', async () => {
+    const app = createApp()
+    const first = await fetchToken(app)
+    const second = await fetchToken(app, first.cookies)
+
+    expect(second.token).not.toBe(first.token)
+    await request(app.server()).post('/').set('Cookie', second.cookies).set('X-CSRF-Token', first.token).expect(200)
+  })
+
+  it('should reject tokens from another session', async () => {
+    const app = createApp()
+    const alice = await fetchToken(app)
+    const mallory = await fetchToken(app)
+
+    await request(app.server()).post('/').set('Cookie', alice.cookies).set('X-CSRF-Token', mallory.token).expect(403)
+  })
+
+  it('should rotate the secret on regenerate', async () => {
+    const app = createApp()
+    const { token, cookies } = await fetchToken(app)
+
+    const res = await request(app.server()).post('/regenerate').set('Cookie', cookies).set('X-CSRF-Token', token).expect(200)
+    const regeneratedCookies = mergeCookies(cookies, res.headers['set-cookie'])
+
+    await request(app.server()).post('/').set('Cookie', regeneratedCookies).set('X-CSRF-Token', token).expect(403)
+
+    const next = await fetchToken(app, regeneratedCookies)
+    await request(app.server()).post('/').set('Cookie', next.cookies).set('X-CSRF-Token', next.token).expect(200)
+  })
+
+  it('should issue tokens for the new secret after regenerate in the same request', async () => {
+    const app = createApp()
+    const { token, cookies } = await fetchToken(app)
+
+    const res = await request(app.server())
+      .post('/regenerate-and-token')
+      .set('Cookie', cookies)
+      .set('X-CSRF-Token', token)
+      .expect(200)
+    const regeneratedCookies = mergeCookies(cookies, res.headers['set-cookie'])
+
+    await request(app.server()).post('/').set('Cookie', regeneratedCookies).set('X-CSRF-Token', res.body.token).expect(200)
+  })
+
+  describe('double-submit-cookie mode', () => {
+    it('should keep the secret in a separate cookie', async () => {
+      const app = createApp({ doubleSubmit: { cookieName: 'csrf' } })
+      const { token, cookies } = await fetchToken(app)
+      expect(cookies.some((cookie) => cookie.startsWith('csrf='))).toBe(true)
+
+      const csrfCookie = cookies.filter((cookie) => cookie.startsWith('csrf='))
+      await request(app.server()).post('/').set('Cookie', csrfCookie).set('X-CSRF-Token', token).expect(200)
+      await request(app.server()).post('/').set('X-CSRF-Token', token).expect(403)
+    })
+  })
+})
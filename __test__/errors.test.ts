@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest'
+import request from 'supertest'
+import { Response } from 'farrow-http'
+import { memorySessionStore } from '../src/memory'
+import { SessionErrorHandler, SessionStore } from '../src/auth'
+import { createSessionApp, toRequestCookies } from './helpers'
+
+type UserData = { name?: string }
+
+const createApp = (store: SessionStore<UserData, string>, onError?: SessionErrorHandler<UserData>) => {
+  const { app, sessionCtx } = createSessionApp({ sessionStore: store, onError })
+  app.use((request) => {
+    if (request.pathname === '/login') {
+      sessionCtx.set({ name: 'Alice' })
+    }
+    return Response.json({ userData: sessionCtx.get() ?? null })
+  })
+  return app
+}
+
+const login = async (store: SessionStore<UserData, string>) => {
+  const res = await request(createApp(store).server()).get('/login').expect(200)
+  return toRequestCookies(res.headers['set-cookie'] as unknown as string[])
+}
+
+const apiError = (kind: string) => Response.json({ code: kind, message: 'Session unavailable' }).status(503)
+
+describe('Session Error Handling', () => {
+  it('should keep the default error responses without onError', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const cookies = await login(store)
+
+    const getFailed = createApp({ ...store, get: async () => undefined })
+    const res1 = await request(getFailed.server()).get('/').set('Cookie', cookies).expect(500)
+    expect(res1.body).toEqual({ error: 'Internal Server Error' })
+
+    const setRejected = createApp({ ...store, set: async () => false })
+    const res2 = await request(setRejected.server()).get('/login').set('Cookie', cookies).expect(401)
+    expect(res2.body).toEqual({ error: 'SessionStore Set Failed' })
+
+    const touchRejected = createApp({ ...store, touch: async () => false })
+    const res3 = await request(touchRejected.server()).get('/').set('Cookie', cookies).expect(401)
+    expect(res3.body).toEqual({ error: 'Session Touch Failed' })
+  })
+
+  it('should send the response returned by onError', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const cookies = await login(store)
+    const onError = vi.fn<SessionErrorHandler<UserData>>((kind) => apiError(kind))
+
+    const res1 = await request(createApp({ ...store, create: async () => undefined }, onError).server())
+      .get('/')
+      .expect(503)
+    expect(res1.body).toEqual({ code: 'STORE_CREATE_FAILED', message: 'Session unavailable' })
+
+    const res2 = await request(createApp({ ...store, set: async () => undefined }, onError).server())
+      .get('/login')
+      .set('Cookie', cookies)
+      .expect(503)
+    expect(res2.body.code).toBe('STORE_SET_FAILED')
+
+    const res3 = await request(createApp({ ...store, touch: async () => undefined }, onError).server())
+      .get('/')
+      .set('Cookie', cookies)
+      .expect(503)
+    expect(res3.body.code).toBe('TOUCH_FAILED')
+
+    expect(onError.mock.calls.map(([kind]) => kind)).toEqual(['STORE_CREATE_FAILED', 'STORE_SET_FAILED', 'TOUCH_FAILED'])
+    expect(onError.mock.calls[1]![1]).toMatchObject({ userData: { name: 'Alice' }, sessionId: expect.any(String) })
+    expect(onError.mock.calls[1]![1].request.pathname).toBe('/login')
+  })
+
+  it('should fall back to the default response when onError returns nothing', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const cookies = await login(store)
+    const onError = vi.fn()
+
+    const app = createApp({ ...store, get: async () => undefined }, onError)
+    const res = await request(app.server()).get('/').set('Cookie', cookies).expect(500)
+
+    expect(res.body).toEqual({ error: 'Internal Server Error' })
+    expect(onError).toHaveBeenCalledWith('STORE_GET_FAILED', expect.objectContaining({ userData: undefined }))
+  })
+
+  it('should continue with an anonymous session when onError returns continue', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const cookies = await login(store)
+    const set = vi.fn(store.set)
+
+    const app = createApp({ ...store, get: async () => undefined, set }, () => 'continue')
+    const res = await request(app.server()).get('/login').set('Cookie', cookies).expect(200)
+
+    // 请求照常处理，但不会保存 session，也不会清除原有凭证
+    expect(res.body.userData).toEqual({ name: 'Alice' })
+    expect(set).not.toHaveBeenCalled()
+    expect(res.headers['set-cookie']).toBeUndefined()
+
+    const res2 = await request(createApp(store).server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual({ name: 'Alice' })
+  })
+
+  it('should serve the handler response when saving fails and onError returns continue', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const cookies = await login(store)
+
+    const app = createApp({ ...store, set: async () => false }, (kind) => (kind === 'STORE_SET_REJECTED' ? 'continue' : undefined))
+    const res = await request(app.server()).get('/login').set('Cookie', cookies).expect(200)
+
+    expect(res.body.userData).toEqual({ name: 'Alice' })
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import request from 'supertest'
+import { Response } from 'farrow-http'
+import { memorySessionStore } from '../src/memory'
+import { requireSession, requireRole, requirePermission } from '../src/guard'
+import { createSessionApp, toRequestCookies } from './helpers'
+
+type UserData = { name: string; roles?: string[]; permissions?: string[] }
+
+const createApp = () => {
+  const { app, sessionCtx } = createSessionApp({
+    sessionStore: memorySessionStore<UserData>({ sweepInterval: 0 }),
+    autoCreateOnMissing: false,
+  })
+
+  app.get('/login?<role:string>').use(async (request) => {
+    sessionCtx.set({ name: 'Alice', roles: [request.query.role], permissions: ['posts:read'] })
+    await sessionCtx.regenerate()
+    return Response.json({ ok: true })
+  })
+
+  const session = requireSession(sessionCtx, { redirectTo: '/login' })
+  app.route('/profile').use(session).use(() => {
+    // session.get() 的类型为 UserData，不需要判断 undefined
+    return Response.json({ name: session.get().name })
+  })
+
+  app.route('/unguarded').use(() => {
+    try {
+      return Response.json({ name: session.get().name })
+    } catch (error) {
+      return Response.json({ error: (error as Error).message }).status(500)
+    }
+  })
+
+  app.route('/admin').use(requireRole(sessionCtx, ['admin', 'owner'])).use(() => Response.json({ ok: true }))
+
+  app
+    .route('/posts')
+    .use(requirePermission(sessionCtx, ['posts:read', 'posts:write']))
+    .use(() => Response.json({ ok: true }))
+
+  app
+    .route('/custom')
+    .use(
+      requireSession(sessionCtx, {
+        predicate: (userData) => userData.name === 'Bob',
+        onUnauthorized: () => Response.json({ code: 'LOGIN_REQUIRED' }).status(401),
+        onForbidden: (_, userData) => Response.json({ code: 'NOT_BOB', name: userData.name }).status(403),
+      }),
+    )
+    .use(() => Response.json({ ok: true }))
+
+  return app
+}
+
+const loginAs = async (app: ReturnType<typeof createApp>, role: string) => {
+  const res = await request(app.server()).get('/login').query({ role }).expect(200)
+  const cookies = res.headers['set-cookie'] as unknown as string[]
+  return toRequestCookies(cookies)
+}
+
+describe('Route Guards', () => {
+  it('should return 401 without a session', async () => {
+    const app = createApp()
+    const res = await request(app.server()).get('/profile').expect(401)
+    expect(res.body).toEqual({ error: 'Unauthorized' })
+  })
+
+  it('should redirect page requests when redirectTo is set', async () => {
+    const app = createApp()
+    const res = await request(app.server()).get('/profile').set('Accept', 'text/html').expect(302)
+    expect(res.headers.location).toBe('/login')
+  })
+
+  it('should pass the user data to guarded handlers', async () => {
+    const app = createApp()
+    const cookies = await loginAs(app, 'user')
+    const res = await request(app.server()).get('/profile').set('Cookie', cookies).expect(200)
+    expect(res.body).toEqual({ name: 'Alice' })
+  })
+
+  it('should check roles', async () => {
+    const app = createApp()
+    await request(app.server()).get('/admin').expect(401)
+
+    const userCookies = await loginAs(app, 'user')
+    const res = await request(app.server()).get('/admin').set('Cookie', userCookies).expect(403)
+    expect(res.body).toEqual({ error: 'Forbidden' })
+
+    const ownerCookies = await loginAs(app, 'owner')
+    await request(app.server()).get('/admin').set('Cookie', ownerCookies).expect(200)
+  })
+
+  it('should require every permission', async () => {
+    const app = createApp()
+    const cookies = await loginAs(app, 'admin')
+    await request(app.server()).get('/posts').set('Cookie', cookies).expect(403)
+  })
+
+  it('should use the custom predicate and responses', async () => {
+    const app = createApp()
+    const res1 = await request(app.server()).get('/custom').expect(401)
+    expect(res1.body).toEqual({ code: 'LOGIN_REQUIRED' })
+
+    const cookies = await loginAs(app, 'user')
+    const res2 = await request(app.server()).get('/custom').set('Cookie', cookies).expect(403)
+    expect(res2.body).toEqual({ code: 'NOT_BOB', name: 'Alice' })
+  })
+
+  it('should throw when get is called without a session outside a guarded route', async () => {
+    const app = createApp()
+    const res = await request(app.server()).get('/unguarded').expect(500)
+    expect(res.body.error).toContain('make sure the route is protected by requireSession')
+  })
+})
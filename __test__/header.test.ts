@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import request from 'supertest'
+import { Http, Response } from 'farrow-http'
+import { headerSessionParser } from '../src/header'
+import { sessionMetaDataCtx } from '../src/meta'
+import { memorySessionStore } from '../src/memory'
+import { createSessionCtx, createFarrowSession } from '../src/auth'
+
+describe('Header Module', () => {
+  describe('headerSessionParser', () => {
+    it('should get sessionId from the default header', async () => {
+      const parser = headerSessionParser()
+      const app = Http()
+      app.use(async (request) => {
+        return Response.json({ sessionId: await parser.get(request) })
+      })
+
+      const encodedId = Buffer.from('test-session-id').toString('base64')
+      const res1 = await request(app.server()).get('/').set('X-Session-Id', encodedId).expect(200)
+      expect(res1.body).toEqual({ sessionId: 'test-session-id' })
+
+      const res2 = await request(app.server()).get('/').expect(200)
+      expect(res2.body).toEqual({ sessionId: null })
+    })
+
+    it('should read Authorization: Bearer with a custom codec', async () => {
+      const parser = headerSessionParser({
+        headerName: 'authorization',
+        scheme: 'Bearer',
+        customCodec: {
+          encode: (plain) => `encoded-${plain}`,
+          decode: (encoded) => encoded.replace('encoded-', ''),
+        },
+      })
+      const app = Http()
+      app.use(async (request) => {
+        return Response.json({ sessionId: await parser.get(request) })
+      })
+
+      const res1 = await request(app.server()).get('/').set('Authorization', 'Bearer encoded-abc').expect(200)
+      expect(res1.body).toEqual({ sessionId: 'abc' })
+
+      const res2 = await request(app.server()).get('/').set('Authorization', 'Basic encoded-abc').expect(200)
+      expect(res2.body).toEqual({ sessionId: null })
+    })
+
+    it('should set the session id and expiry in response headers', async () => {
+      const parser = headerSessionParser({ expiresHeaderName: 'x-session-expires' })
+      const expiresTime = Date.UTC(2030, 0, 1)
+      const app = Http()
+      app.use(async () => {
+        sessionMetaDataCtx.set({ sessionId: 'test-session-id', expiresTime })
+        return parser.set()
+      })
+
+      const res = await request(app.server()).get('/').expect(204)
+      expect(res.headers['x-session-id']).toBe(Buffer.from('test-session-id').toString('base64'))
+      expect(res.headers['x-session-expires']).toBe(new Date(expiresTime).toISOString())
+    })
+
+    it('should return empty response when no session metadata', async () => {
+      const parser = headerSessionParser()
+      const app = Http()
+      app.use(async () => parser.set())
+
+      const res = await request(app.server()).get('/').expect(204)
+      expect(res.headers['x-session-id']).toBeUndefined()
+    })
+
+    it('should keep a server-side session for clients without cookies', async () => {
+      const sessionCtx = createSessionCtx<{ counter: number } | undefined>(undefined)
+      const store = memorySessionStore<{ counter: number } | undefined>({ sweepInterval: 0 })
+      const app = Http()
+      app.use(
+        createFarrowSession({
+          sessionUserDataCtx: sessionCtx,
+          autoSave: true,
+          autoCreateOnMissing: true,
+          sessionParser: headerSessionParser({ headerName: 'authorization', scheme: 'Bearer' }),
+          sessionStore: store,
+        }),
+      )
+      app.use(() => {
+        sessionCtx.set({ counter: (sessionCtx.get()?.counter ?? 0) + 1 })
+        return Response.json({ userData: sessionCtx.get() })
+      })
+
+      const res1 = await request(app.server()).get('/').expect(200)
+      const authorization = res1.headers['authorization']!
+      expect(authorization).toMatch(/^Bearer /)
+
+      const res2 = await request(app.server()).get('/').set('Authorization', authorization).expect(200)
+      expect(res2.body.userData).toEqual({ counter: 2 })
+    })
+  })
+})
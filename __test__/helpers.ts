@@ -0,0 +1,40 @@
+import { Http } from 'farrow-http'
+import { cookieSessionParser } from '../src/cookie'
+import { SessionConfig, SessionStore, createFarrowSession, createSessionCtx } from '../src/auth'
+
+// 将响应中的 set-cookie 转换为下一次请求携带的 cookie：同名 cookie 只保留最后一次设置的值，忽略已清除的 cookie
+export const toRequestCookies = (cookies: string[]) => {
+  const jar = new Map<string, string>()
+  for (const cookie of cookies) {
+    const pair = cookie.split(';')[0]!
+    const name = pair.slice(0, pair.indexOf('='))
+    const value = pair.slice(pair.indexOf('=') + 1)
+    if (value) jar.set(name, value)
+    else jar.delete(name)
+  }
+  return [...jar].map(([name, value]) => `${name}=${value}`)
+}
+
+export type SessionAppOptions<UserData> = Partial<
+  Omit<SessionConfig<UserData, string>, 'sessionUserDataCtx' | 'sessionStore'>
+> & {
+  sessionStore: SessionStore<UserData, string>
+  // createSessionCtx 的默认数据
+  defaultData?: UserData
+}
+
+// 挂载了 createFarrowSession 的测试应用，默认开启 autoSave 和 autoCreateOnMissing 并使用 cookieSessionParser，路由由各测试自行注册
+export const createSessionApp = <UserData>({ defaultData, ...config }: SessionAppOptions<UserData>) => {
+  const sessionCtx = createSessionCtx<UserData | undefined>(defaultData)
+  const app = Http()
+  app.use(
+    createFarrowSession({
+      sessionUserDataCtx: sessionCtx,
+      autoSave: true,
+      autoCreateOnMissing: true,
+      sessionParser: cookieSessionParser(),
+      ...config,
+    }),
+  )
+  return { app, sessionCtx }
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest'
+import request from 'supertest'
+import { Response } from 'farrow-http'
+import { memorySessionStore } from '../src/memory'
+import { SessionHooks, SessionStore } from '../src/auth'
+import { createSessionApp, toRequestCookies } from './helpers'
+
+type UserData = { name?: string }
+
+const createHooks = () => ({
+  onCreate: vi.fn(),
+  onLoad: vi.fn(),
+  onInvalid: vi.fn(),
+  onRegenerate: vi.fn(),
+  onDestroy: vi.fn(),
+  onSave: vi.fn(),
+  onError: vi.fn(),
+})
+
+const createApp = (
+  hooks: SessionHooks<UserData>,
+  options: { awaitHooks?: boolean; store?: SessionStore<UserData, string> } = {},
+) => {
+  const { app, sessionCtx } = createSessionApp({
+    sessionStore: options.store ?? memorySessionStore<UserData>({ sweepInterval: 0 }),
+    hooks,
+    awaitHooks: options.awaitHooks,
+  })
+  app.use(async (request) => {
+    if (request.pathname === '/login') {
+      sessionCtx.set({ name: 'Alice' })
+    }
+    if (request.pathname === '/regenerate') {
+      await sessionCtx.regenerate()
+    }
+    if (request.pathname === '/logout') {
+      await sessionCtx.destroy()
+    }
+    return Response.json({ userData: sessionCtx.get() ?? null })
+  })
+  return app
+}
+
+describe('Session Hooks', () => {
+  it('should call onCreate and onSave with the session id, request and user data', async () => {
+    const hooks = createHooks()
+    const app = createApp(hooks)
+
+    await request(app.server()).get('/login').expect(200)
+
+    expect(hooks.onCreate).toHaveBeenCalledTimes(1)
+    const createContext = hooks.onCreate.mock.calls[0]![0]
+    expect(createContext.sessionId).toEqual(expect.any(String))
+    expect(createContext.request.pathname).toBe('/login')
+    expect(createContext.userData).toEqual({})
+
+    expect(hooks.onSave).toHaveBeenCalledTimes(1)
+    expect(hooks.onSave.mock.calls[0]![0]).toMatchObject({ sessionId: createContext.sessionId, userData: { name: 'Alice' } })
+    expect(hooks.onLoad).not.toHaveBeenCalled()
+  })
+
+  it('should call onLoad for an existing session without onSave when nothing changed', async () => {
+    const hooks = createHooks()
+    const app = createApp(hooks)
+    const res1 = await request(app.server()).get('/login').expect(200)
+    const cookies = toRequestCookies(res1.headers['set-cookie'] as unknown as string[])
+    hooks.onSave.mockClear()
+
+    await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+
+    expect(hooks.onLoad).toHaveBeenCalledTimes(1)
+    expect(hooks.onLoad.mock.calls[0]![0]).toMatchObject({
+      sessionId: hooks.onCreate.mock.calls[0]![0].sessionId,
+      userData: { name: 'Alice' },
+    })
+    expect(hooks.onCreate).toHaveBeenCalledTimes(1)
+    expect(hooks.onSave).not.toHaveBeenCalled()
+  })
+
+  it('should call onInvalid before creating a new session', async () => {
+    const hooks = createHooks()
+    const app = createApp(hooks)
+    const res1 = await request(app.server()).get('/login').expect(200)
+    const cookies = toRequestCookies(res1.headers['set-cookie'] as unknown as string[])
+
+    // 另一个进程的内存 store 中不存在该 session
+    const otherApp = createApp(hooks)
+    await request(otherApp.server()).get('/').set('Cookie', cookies).expect(200)
+
+    expect(hooks.onInvalid).toHaveBeenCalledTimes(1)
+    expect(hooks.onInvalid.mock.calls[0]![0].userData).toBeUndefined()
+    expect(hooks.onCreate).toHaveBeenCalledTimes(2)
+    expect(hooks.onInvalid.mock.invocationCallOrder[0]).toBeLessThan(hooks.onCreate.mock.invocationCallOrder[1]!)
+  })
+
+  it('should call onRegenerate with the previous session id', async () => {
+    const hooks = createHooks()
+    const app = createApp(hooks)
+    const res1 = await request(app.server()).get('/login').expect(200)
+    const cookies = toRequestCookies(res1.headers['set-cookie'] as unknown as string[])
+
+    await request(app.server()).get('/regenerate').set('Cookie', cookies).expect(200)
+
+    expect(hooks.onRegenerate).toHaveBeenCalledTimes(1)
+    const context = hooks.onRegenerate.mock.calls[0]![0]
+    expect(context.previousSessionId).toBe(hooks.onCreate.mock.calls[0]![0].sessionId)
+    expect(context.sessionId).toEqual(expect.any(String))
+    expect(context.sessionId).not.toBe(context.previousSessionId)
+    expect(context.userData).toEqual({ name: 'Alice' })
+  })
+
+  it('should call onDestroy with the destroyed session', async () => {
+    const hooks = createHooks()
+    const app = createApp(hooks)
+    const res1 = await request(app.server()).get('/login').expect(200)
+    const cookies = toRequestCookies(res1.headers['set-cookie'] as unknown as string[])
+
+    await request(app.server()).get('/logout').set('Cookie', cookies).expect(200)
+
+    expect(hooks.onDestroy).toHaveBeenCalledTimes(1)
+    expect(hooks.onDestroy.mock.calls[0]![0]).toMatchObject({
+      sessionId: hooks.onCreate.mock.calls[0]![0].sessionId,
+      userData: { name: 'Alice' },
+    })
+  })
+
+  it('should call onError when the store fails', async () => {
+    const hooks = createHooks()
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const app = createApp(hooks, { store: { ...store, create: async () => undefined } })
+
+    await request(app.server()).get('/').expect(500)
+
+    expect(hooks.onError).toHaveBeenCalledTimes(1)
+    expect(hooks.onError.mock.calls[0]![0].operation).toBe('create')
+    expect(hooks.onCreate).not.toHaveBeenCalled()
+  })
+
+  it('should not block the response when awaitHooks is false', async () => {
+    let resolveHook = () => {}
+    const onCreate = vi.fn(() => new Promise<void>((resolve) => (resolveHook = resolve)))
+    const onSave = vi.fn(async () => {
+      throw new Error('audit log unavailable')
+    })
+    const onError = vi.fn()
+    const app = createApp({ onCreate, onSave, onError }, { awaitHooks: false })
+
+    const res = await request(app.server()).get('/login').expect(200)
+
+    expect(res.body.userData).toEqual({ name: 'Alice' })
+    expect(onCreate).toHaveBeenCalledTimes(1)
+    expect(onSave).toHaveBeenCalledTimes(1)
+    resolveHook()
+
+    // 后台执行失败的 hook 交给 onError
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(1))
+    expect(onError.mock.calls[0]![0]).toMatchObject({
+      operation: 'hook',
+      hook: 'onSave',
+      error: new Error('audit log unavailable'),
+      userData: { name: 'Alice' },
+    })
+  })
+})
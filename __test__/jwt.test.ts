@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import request from 'supertest'
+import { createHmac, generateKeyPairSync } from 'crypto'
+import { Http, Response } from 'farrow-http'
+import { jwtSessionParser, jwtSessionStore, type JwtSessionStoreOptions } from '../src/jwt'
+import { createSessionCtx, createFarrowSession } from '../src/auth'
+import { oneMinute } from '../src/utils'
+
+type UserData = { sub?: string; role?: string }
+
+const createApp = (storeOptions: JwtSessionStoreOptions<UserData>) => {
+  const sessionCtx = createSessionCtx<UserData>({})
+  const app = Http()
+  app.use(
+    createFarrowSession({
+      sessionUserDataCtx: sessionCtx,
+      autoSave: true,
+      autoCreateOnMissing: false,
+      sessionParser: jwtSessionParser(),
+      sessionStore: jwtSessionStore<UserData>(storeOptions),
+    }),
+  )
+  app.post('/login').use(() => {
+    sessionCtx.set({ sub: 'user-1', role: 'admin' })
+    return Response.json({ ok: true })
+  })
+  app.get('/me').use(() => {
+    return Response.json({ userData: sessionCtx.get() })
+  })
+  return app
+}
+
+const bearer = (res: { headers: Record<string, string> }) => res.headers['authorization']!
+
+const signHs256 = (claims: Record<string, unknown>, secret: string, alg = 'HS256') => {
+  const data = [{ alg, typ: 'JWT' }, claims].map((part) => Buffer.from(JSON.stringify(part)).toString('base64url'))
+  const signature = createHmac('sha256', secret).update(data.join('.')).digest('base64url')
+  return `${data.join('.')}.${signature}`
+}
+
+describe('JWT Module', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('jwtSessionParser', () => {
+    it('should read bearer token from the Authorization header or a cookie', async () => {
+      const parser = jwtSessionParser({ cookieKey: 'token' })
+      const app = Http()
+      app.use(async (request) => {
+        return Response.json({ token: await parser.get(request) })
+      })
+
+      const res1 = await request(app.server()).get('/').set('Authorization', 'Bearer abc.def.ghi').expect(200)
+      expect(res1.body).toEqual({ token: 'abc.def.ghi' })
+
+      const res2 = await request(app.server()).get('/').set('Cookie', 'token=abc.def.ghi').expect(200)
+      expect(res2.body).toEqual({ token: 'abc.def.ghi' })
+
+      const res3 = await request(app.server()).get('/').set('Authorization', 'Basic abc').expect(200)
+      expect(res3.body).toEqual({ token: null })
+    })
+  })
+
+  describe('jwtSessionStore', () => {
+    it('should require key material', () => {
+      expect(() => jwtSessionStore({})).toThrow('Secret is required for JWT')
+      expect(() => jwtSessionStore({ algorithm: 'RS256' })).toThrow('A privateKey or publicKey is required')
+    })
+
+    it('should issue a token on login and expose claims as user data', async () => {
+      const app = createApp({ secret: 'test-secret', issuer: 'farrow', audience: 'api' })
+
+      const res1 = await request(app.server()).post('/login').expect(200)
+      const authorization = bearer(res1)
+      expect(authorization).toMatch(/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/)
+
+      const res2 = await request(app.server()).get('/me').set('Authorization', authorization).expect(200)
+      expect(res2.body.userData).toEqual({ sub: 'user-1', role: 'admin' })
+    })
+
+    it.each([
+      ['RS256', generateKeyPairSync('rsa', { modulusLength: 2048 })],
+      ['ES256', generateKeyPairSync('ec', { namedCurve: 'P-256' })],
+    ] as const)('should sign and verify %s tokens', async (algorithm, { privateKey, publicKey }) => {
+      const app = createApp({ algorithm, privateKey })
+      const res1 = await request(app.server()).post('/login').expect(200)
+
+      const verifyOnly = createApp({ algorithm, publicKey })
+      const res2 = await request(verifyOnly.server()).get('/me').set('Authorization', bearer(res1)).expect(200)
+      expect(res2.body.userData).toEqual({ sub: 'user-1', role: 'admin' })
+    })
+
+    it('should let anonymous requests through without issuing a token', async () => {
+      const app = createApp({ secret: 'test-secret' })
+
+      const res = await request(app.server()).get('/me').expect(200)
+      expect(res.body.userData).toEqual({})
+      expect(res.headers['authorization']).toBeUndefined()
+    })
+
+    it('should reject tampered, expired and foreign tokens', async () => {
+      const app = createApp({ secret: 'test-secret', issuer: 'farrow', audience: 'api', maxAge: oneMinute * 1000 })
+      const now = Math.floor(Date.now() / 1000)
+      const claims = { sub: 'user-1', iss: 'farrow', aud: 'api', exp: now + 60 }
+
+      const valid = signHs256(claims, 'test-secret')
+      const invalidTokens = [
+        signHs256(claims, 'other-secret'),
+        signHs256(claims, 'test-secret', 'none'),
+        signHs256({ ...claims, exp: now - 1 }, 'test-secret'),
+        signHs256({ ...claims, nbf: now + 30 }, 'test-secret'),
+        signHs256({ ...claims, iss: 'other' }, 'test-secret'),
+        signHs256({ ...claims, aud: ['other'] }, 'test-secret'),
+        signHs256({ sub: 'user-1', iss: 'farrow', aud: 'api' }, 'test-secret'),
+      ]
+
+      const res = await request(app.server()).get('/me').set('Authorization', `Bearer ${valid}`).expect(200)
+      expect(res.body.userData).toEqual({ sub: 'user-1' })
+
+      for (const token of invalidTokens) {
+        const res = await request(app.server()).get('/me').set('Authorization', `Bearer ${token}`).expect(200)
+        expect(res.body.userData).toEqual({})
+      }
+    })
+
+    it('should only re-issue the token when renewal is due', async () => {
+      const app = createApp({
+        secret: 'test-secret',
+        renew: true,
+        renewBefore: 10 * oneMinute * 1000,
+        maxAge: 30 * oneMinute * 1000,
+      })
+
+      const res1 = await request(app.server()).post('/login').expect(200)
+      const authorization = bearer(res1)
+
+      vi.advanceTimersByTime(5 * oneMinute * 1000)
+      const res2 = await request(app.server()).get('/me').set('Authorization', authorization).expect(200)
+      expect(res2.headers['authorization']).toBeUndefined()
+
+      vi.advanceTimersByTime(20 * oneMinute * 1000)
+      const res3 = await request(app.server()).get('/me').set('Authorization', authorization).expect(200)
+      expect(bearer(res3)).not.toBe(authorization)
+      expect(res3.body.userData).toEqual({ sub: 'user-1', role: 'admin' })
+
+      // 续期后的 token 在原 token 过期后依然有效
+      vi.advanceTimersByTime(10 * oneMinute * 1000)
+      const res4 = await request(app.server()).get('/me').set('Authorization', bearer(res3)).expect(200)
+      expect(res4.body.userData).toEqual({ sub: 'user-1', role: 'admin' })
+    })
+  })
+})
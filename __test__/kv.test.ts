@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import request from 'supertest'
+import { mkdtemp, readdir, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Http, Response } from 'farrow-http'
+import {
+  createKeyValueSessionStore,
+  fileSystemKeyValueBackend,
+  memoryKeyValueBackend,
+  type KeyValueBackend,
+} from '../src/kv'
+import { cookieSessionParser } from '../src/cookie'
+import { createSessionCtx, createFarrowSession } from '../src/auth'
+import { oneMinute } from '../src/utils'
+
+type UserData = { id: string; counter: number }
+
+const createApp = (
+  backend: KeyValueBackend,
+  storeOptions?: {
+    rolling?: boolean
+    renew?: boolean
+    renewBefore?: number
+    maxAge?: number
+    absoluteMaxAge?: number
+    idleTimeout?: number
+  },
+) => {
+  const sessionCtx = createSessionCtx<UserData>({ id: '', counter: 0 })
+  const app = Http()
+  app.use(
+    createFarrowSession({
+      sessionUserDataCtx: sessionCtx,
+      autoSave: true,
+      autoCreateOnMissing: true,
+      sessionParser: cookieSessionParser(),
+      sessionStore: createKeyValueSessionStore<UserData>({ backend, ...storeOptions }),
+    }),
+  )
+  app.get('/').use(() => {
+    const userData = sessionCtx.get()
+    if (!userData || !userData.id) {
+      sessionCtx.set({ id: 'user-1', counter: 1 })
+    } else {
+      sessionCtx.set({ ...userData, counter: userData.counter + 1 })
+    }
+    return Response.json({ userData: sessionCtx.get() })
+  })
+  app.get('/read').use(() => {
+    return Response.json({ userData: sessionCtx.get() })
+  })
+  app.post('/regenerate').use(async () => {
+    const result = await sessionCtx.regenerate()
+    return Response.json({ regenerated: result })
+  })
+  app.post('/logout').use(async () => {
+    const result = await sessionCtx.destroy()
+    return Response.json({ destroyed: result })
+  })
+  return app
+}
+
+describe('Key-Value Module', () => {
+  describe('createKeyValueSessionStore', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should throw error if both rolling and renew are true', () => {
+      expect(() =>
+        createKeyValueSessionStore({ backend: memoryKeyValueBackend(), rolling: true, renew: true }),
+      ).toThrow('Cannot use both rolling and renew modes at the same time')
+    })
+
+    it('should serialize session data into the backend with a ttl', async () => {
+      const backend = memoryKeyValueBackend()
+      const setSpy = vi.spyOn(backend, 'set')
+      const app = createApp(backend, { maxAge: 10 * oneMinute * 1000 })
+
+      const res1 = await request(app.server()).get('/').expect(200)
+      expect(res1.body.userData).toEqual({ id: 'user-1', counter: 1 })
+
+      const [key, value, ttl] = setSpy.mock.calls.at(-1)!
+      expect(key.startsWith('sess:')).toBe(true)
+      expect(JSON.parse(value)._data).toEqual({ id: 'user-1', counter: 1 })
+      expect(ttl).toBe(10 * oneMinute * 1000)
+
+      const res2 = await request(app.server())
+        .get('/')
+        .set('Cookie', res1.headers['set-cookie'] as unknown as string[])
+        .expect(200)
+      expect(res2.body.userData).toEqual({ id: 'user-1', counter: 2 })
+    })
+
+    it('should use backend expire for touch in rolling mode', async () => {
+      const backend = memoryKeyValueBackend()
+      const expireSpy = vi.spyOn(backend, 'expire')
+      const app = createApp(backend, { rolling: true, maxAge: 30 * oneMinute * 1000 })
+
+      const res1 = await request(app.server()).get('/').expect(200)
+      const cookies = res1.headers['set-cookie'] as unknown as string[]
+
+      for (let i = 0; i < 3; i++) {
+        vi.advanceTimersByTime(20 * oneMinute * 1000)
+        const res = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+        expect(res.body.userData).toEqual({ id: 'user-1', counter: 1 })
+      }
+      expect(expireSpy).toHaveBeenCalledTimes(3)
+    })
+
+    it('should renew only once within the renewBefore window', async () => {
+      const app = createApp(memoryKeyValueBackend(), { renew: true, maxAge: 10000, renewBefore: 3000 })
+
+      const res1 = await request(app.server()).get('/').expect(200)
+      const cookies = res1.headers['set-cookie'] as unknown as string[]
+
+      // 8000ms 时进入续期窗口，过期时间延长到 18000ms，之后的请求不再续期
+      for (const elapsed of [8000, 1000, 1500]) {
+        vi.advanceTimersByTime(elapsed)
+        const res = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+        expect(res.body.userData).toEqual({ id: 'user-1', counter: 1 })
+      }
+
+      vi.advanceTimersByTime(8000)
+      const res2 = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+      expect(res2.body.userData).toEqual({})
+    })
+
+    it('should cap the ttl at absoluteMaxAge in rolling mode', async () => {
+      const backend = memoryKeyValueBackend()
+      const expireSpy = vi.spyOn(backend, 'expire')
+      const app = createApp(backend, {
+        rolling: true,
+        maxAge: 30 * oneMinute * 1000,
+        absoluteMaxAge: 45 * oneMinute * 1000,
+      })
+
+      const res1 = await request(app.server()).get('/').expect(200)
+      const cookies = res1.headers['set-cookie'] as unknown as string[]
+
+      vi.advanceTimersByTime(20 * oneMinute * 1000)
+      await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+      // 续期后剩余时间被限制在创建后 45 分钟以内
+      expect(expireSpy.mock.calls.at(-1)![1]).toBe(25 * oneMinute * 1000)
+
+      vi.advanceTimersByTime(25 * oneMinute * 1000)
+      const res2 = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+      expect(res2.body.userData).toEqual({})
+    })
+
+    it('should update only the last-seen time on touch with idleTimeout', async () => {
+      const backend = memoryKeyValueBackend()
+      const app = createApp(backend, { maxAge: 60 * oneMinute * 1000, idleTimeout: 15 * oneMinute * 1000 })
+
+      const res1 = await request(app.server()).get('/').expect(200)
+      const cookies = res1.headers['set-cookie'] as unknown as string[]
+      const setSpy = vi.spyOn(backend, 'set')
+
+      vi.advanceTimersByTime(10 * oneMinute * 1000)
+      await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+      const [, value, ttl] = setSpy.mock.calls.at(-1)!
+      const storedData = JSON.parse(value)
+      expect(storedData._lastSeen).toBe(Date.now())
+      expect(storedData._data).toEqual({ id: 'user-1', counter: 1 })
+      // 过期时间保持不变
+      expect(ttl).toBe(50 * oneMinute * 1000)
+
+      vi.advanceTimersByTime(15 * oneMinute * 1000)
+      const res2 = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+      expect(res2.body.userData).toEqual({})
+    })
+
+    it('should treat expired sessions as missing', async () => {
+      const app = createApp(memoryKeyValueBackend(), { maxAge: 1000 })
+
+      const res1 = await request(app.server()).get('/').expect(200)
+      vi.advanceTimersByTime(2000)
+
+      const res2 = await request(app.server())
+        .get('/read')
+        .set('Cookie', res1.headers['set-cookie'] as unknown as string[])
+        .expect(200)
+      expect(res2.body.userData).toEqual({})
+    })
+
+    it('should delete the old key on regenerate and on destroy', async () => {
+      const backend = memoryKeyValueBackend()
+      const delSpy = vi.spyOn(backend, 'del')
+      const app = createApp(backend)
+
+      const res1 = await request(app.server()).get('/').expect(200)
+      const cookies = res1.headers['set-cookie'] as unknown as string[]
+
+      await request(app.server()).post('/regenerate').set('Cookie', cookies).expect(200)
+      expect(delSpy).toHaveBeenCalledTimes(1)
+
+      const res2 = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+      expect(res2.body.userData).toEqual({})
+
+      const res3 = await request(app.server())
+        .post('/logout')
+        .set('Cookie', res2.headers['set-cookie'] as unknown as string[])
+        .expect(200)
+      expect(res3.body).toEqual({ destroyed: true })
+      expect(delSpy).toHaveBeenCalledTimes(2)
+    })
+
+    it('should return 500 when the backend fails', async () => {
+      const backend = memoryKeyValueBackend()
+      backend.get = vi.fn().mockRejectedValue(new Error('connection lost'))
+      const app = createApp(backend)
+
+      const res1 = await request(app.server()).get('/').expect(200)
+      await request(app.server()).get('/').set('Cookie', res1.headers['set-cookie'] as unknown as string[]).expect(500)
+    })
+  })
+
+  describe('fileSystemKeyValueBackend', () => {
+    let directory: string
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'farrow-session-'))
+    })
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true })
+    })
+
+    it('should store, expire and delete keys as files', async () => {
+      const backend = fileSystemKeyValueBackend({ directory })
+
+      await backend.set('sess:a', 'value-a', 1000)
+      expect(await backend.get('sess:a')).toBe('value-a')
+      expect(await readdir(directory)).toHaveLength(1)
+
+      expect(await backend.expire('sess:a', -1)).toBe(true)
+      expect(await backend.get('sess:a')).toBeNull()
+      expect(await readdir(directory)).toHaveLength(0)
+
+      expect(await backend.expire('sess:missing', 1000)).toBe(false)
+
+      await backend.set('sess:b', 'value-b', 1000)
+      await backend.del('sess:b')
+      expect(await backend.get('sess:b')).toBeNull()
+    })
+
+    it('should persist sessions across requests', async () => {
+      const app = createApp(fileSystemKeyValueBackend({ directory }))
+
+      const res1 = await request(app.server()).get('/').expect(200)
+      const res2 = await request(app.server())
+        .get('/')
+        .set('Cookie', res1.headers['set-cookie'] as unknown as string[])
+        .expect(200)
+      expect(res2.body.userData).toEqual({ id: 'user-1', counter: 2 })
+    })
+  })
+})
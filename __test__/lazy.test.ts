@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest'
+import request from 'supertest'
+import { Response } from 'farrow-http'
+import { memorySessionStore } from '../src/memory'
+import { SessionHooks } from '../src/auth'
+import { createSessionApp, toRequestCookies } from './helpers'
+
+type UserData = { cart: string[] }
+
+const createApp = (options: { autoSave?: boolean; hooks?: SessionHooks<UserData> } = {}) => {
+  const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+  const { app, sessionCtx } = createSessionApp({
+    sessionStore: store,
+    defaultData: { cart: [] },
+    autoSave: options.autoSave ?? true,
+    lazy: true,
+    hooks: options.hooks,
+  })
+  app.use(async (request) => {
+    if (request.pathname === '/cart') {
+      sessionCtx.set({ cart: [...sessionCtx.get()!.cart, 'apple'] })
+      if (!options.autoSave && options.autoSave !== undefined) {
+        await sessionCtx.saveToStore()
+      }
+    }
+    return Response.json({ userData: sessionCtx.get() ?? null })
+  })
+  return { app, store }
+}
+
+// 过滤掉用于清除凭证的空 Cookie
+const sessionCookies = (setCookie: unknown) => toRequestCookies((setCookie ?? []) as string[])
+
+describe('Lazy session creation', () => {
+  it('should not create sessions for requests that only read', async () => {
+    const onCreate = vi.fn()
+    const { app, store } = createApp({ hooks: { onCreate } })
+
+    const res = await request(app.server()).get('/').expect(200)
+
+    expect(res.body.userData).toEqual({ cart: [] })
+    expect(sessionCookies(res.headers['set-cookie'])).toEqual([])
+    expect(store.size).toBe(0)
+    expect(onCreate).not.toHaveBeenCalled()
+  })
+
+  it('should create the session when data is written', async () => {
+    const onCreate = vi.fn()
+    const { app, store } = createApp({ hooks: { onCreate } })
+
+    const res1 = await request(app.server()).get('/cart').expect(200)
+    const cookies = sessionCookies(res1.headers['set-cookie'])
+    expect(cookies).toHaveLength(1)
+    expect(store.size).toBe(1)
+    expect(onCreate).toHaveBeenCalledWith(expect.objectContaining({ userData: { cart: ['apple'] } }))
+
+    const res2 = await request(app.server()).get('/cart').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual({ cart: ['apple', 'apple'] })
+    expect(store.size).toBe(1)
+    expect(onCreate).toHaveBeenCalledTimes(1)
+  })
+
+  it('should clear invalid credentials without creating a session', async () => {
+    const onInvalid = vi.fn()
+    const { app, store } = createApp({ hooks: { onInvalid } })
+
+    const res = await request(app.server()).get('/').set('Cookie', 'sess:k=bWlzc2luZw==').expect(200)
+
+    expect(onInvalid).toHaveBeenCalledTimes(1)
+    expect(res.body.userData).toEqual({ cart: [] })
+    expect(res.headers['set-cookie']).toEqual(expect.arrayContaining([expect.stringMatching(/^sess:k=;/)]))
+    expect(sessionCookies(res.headers['set-cookie'])).toEqual([])
+    expect(store.size).toBe(0)
+  })
+
+  it('should create the session in saveToStore when autoSave is disabled', async () => {
+    const { app, store } = createApp({ autoSave: false })
+
+    const res1 = await request(app.server()).get('/').expect(200)
+    expect(sessionCookies(res1.headers['set-cookie'])).toEqual([])
+
+    const res2 = await request(app.server()).get('/cart').expect(200)
+    const cookies = sessionCookies(res2.headers['set-cookie'])
+    expect(cookies).toHaveLength(1)
+    expect(store.size).toBe(1)
+
+    const res3 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res3.body.userData).toEqual({ cart: ['apple'] })
+  })
+})
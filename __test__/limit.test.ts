@@ -0,0 +1,225 @@
+import { describe, it, expect, vi } from 'vitest'
+import request from 'supertest'
+import { Http, Response } from 'farrow-http'
+import { cookieSessionStore } from '../src/cookie'
+import { useSessionMeta } from '../src/meta'
+import { memorySessionStore } from '../src/memory'
+import {
+  SessionLimitContext,
+  SessionLimitDecision,
+  SessionHooks,
+  SessionLimitExceededError,
+  SessionLimitOptions,
+  SessionStore,
+} from '../src/auth'
+import { createSessionApp, toRequestCookies } from './helpers'
+
+type UserData = { userId?: string }
+
+const createStore = () => memorySessionStore<UserData>({ sweepInterval: 0, userIdOf: (userData) => userData.userId })
+
+const createApp = (
+  store: SessionStore<UserData, string>,
+  maxSessionsPerUser: SessionLimitOptions<UserData>,
+  hooks?: SessionHooks<UserData>,
+) => {
+  const { app, sessionCtx } = createSessionApp({ sessionStore: store, maxSessionsPerUser, hooks })
+  app.use(async (request) => {
+    try {
+      if (request.pathname === '/anonymous') {
+        sessionCtx.set({})
+      } else if (request.pathname === '/login') {
+        await sessionCtx.login({ userId: 'alice' })
+      } else if (request.pathname === '/regenerate') {
+        sessionCtx.set({ userId: 'alice' })
+        await sessionCtx.regenerate()
+      }
+    } catch (error) {
+      if (error instanceof SessionLimitExceededError) {
+        return Response.json({
+          error: error.name,
+          limit: error.limit,
+          sessions: error.sessions.map((session) => session.sessionId),
+        }).status(409)
+      }
+      throw error
+    }
+    return Response.json({ userData: sessionCtx.get() ?? null, sessionId: useSessionMeta()?.sessionId })
+  })
+  return app
+}
+
+const loginFromNewDevice = async (app: ReturnType<typeof Http>, path = '/login') => {
+  const res = await request(app.server()).get(path).expect(200)
+  return toRequestCookies(res.headers['set-cookie'] as unknown as string[])
+}
+
+const whoAmI = async (app: ReturnType<typeof Http>, cookies: string[]) => {
+  const res = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+  return res.body.userData
+}
+
+describe('Concurrent Session Limit', () => {
+  it('should evict the oldest session by default', async () => {
+    const store = createStore()
+    const app = createApp(store, { limit: 2 })
+
+    const device1 = await loginFromNewDevice(app)
+    const device2 = await loginFromNewDevice(app)
+    const device3 = await loginFromNewDevice(app)
+
+    expect(await whoAmI(app, device1)).toEqual({})
+    expect(await whoAmI(app, device2)).toEqual({ userId: 'alice' })
+    expect(await whoAmI(app, device3)).toEqual({ userId: 'alice' })
+    expect(await store.listByUser('alice')).toHaveLength(2)
+  })
+
+  it('should enforce the limit on regenerate', async () => {
+    const store = createStore()
+    const app = createApp(store, { limit: 1 })
+
+    const device1 = await loginFromNewDevice(app, '/regenerate')
+    const device2 = await loginFromNewDevice(app, '/regenerate')
+
+    expect(await whoAmI(app, device1)).toEqual({})
+    expect(await whoAmI(app, device2)).toEqual({ userId: 'alice' })
+    expect(await store.listByUser('alice')).toHaveLength(1)
+  })
+
+  it('should reject the new login with SessionLimitExceededError', async () => {
+    const store = createStore()
+    const app = createApp(store, { limit: 2, strategy: 'reject' })
+
+    const device1 = await loginFromNewDevice(app)
+    const device2 = await loginFromNewDevice(app)
+    const res = await request(app.server()).get('/login').expect(409)
+    expect(res.body).toEqual({ error: 'SessionLimitExceededError', limit: 2, sessions: expect.any(Array) })
+    expect(res.body.sessions).toHaveLength(2)
+
+    expect(await whoAmI(app, device1)).toEqual({ userId: 'alice' })
+    expect(await whoAmI(app, device2)).toEqual({ userId: 'alice' })
+    expect(await store.listByUser('alice')).toHaveLength(2)
+  })
+
+  it('should keep the evicted sessions when the login is rolled back', async () => {
+    const store = createStore()
+    const device1 = await loginFromNewDevice(createApp(store, { limit: 1 }))
+
+    // 匿名 session 创建成功，登录时的 create 失败或抛出异常
+    let createCalls = 0
+    const failingCreate = createApp(
+      { ...store, create: async (userData) => (++createCalls > 1 ? undefined : store.create(userData)) },
+      { limit: 1 },
+    )
+    const res = await request(failingCreate.server()).get('/login').expect(200)
+    expect(res.body.userData).toEqual({})
+    expect(await store.listByUser('alice')).toHaveLength(1)
+
+    let throwingCreateCalls = 0
+    const throwingCreate = createApp(
+      {
+        ...store,
+        create: async (userData) => {
+          if (++throwingCreateCalls > 1) throw new Error('backend unavailable')
+          return store.create(userData)
+        },
+      },
+      { limit: 1 },
+    )
+    await request(throwingCreate.server()).get('/login').expect(500)
+    expect(await store.listByUser('alice')).toHaveLength(1)
+    expect(await whoAmI(createApp(store, { limit: 1 }), device1)).toEqual({ userId: 'alice' })
+  })
+
+  it('should run onLogin only after the sessions are evicted', async () => {
+    const store = createStore()
+    await loginFromNewDevice(createApp(store, { limit: 1 }))
+
+    // 记录 onLogin 执行时用户的 session 数量
+    const sessionCounts: number[] = []
+    const onLogin = vi.fn(async () => {
+      sessionCounts.push((await store.listByUser('alice'))!.length)
+    })
+    const failingEviction = createApp(
+      { ...store, destroyByUser: async () => undefined },
+      { limit: 1 },
+      { onLogin },
+    )
+    const res = await request(failingEviction.server()).get('/login').expect(200)
+    expect(res.body.userData).toEqual({})
+    expect(onLogin).not.toHaveBeenCalled()
+    expect(await store.listByUser('alice')).toHaveLength(1)
+
+    // onLogin 抛出异常时登录回滚，已淘汰的 session 不会恢复
+    const failingHook = createApp(store, { limit: 1 }, {
+      onLogin: async () => {
+        await onLogin()
+        throw new Error('audit log unavailable')
+      },
+    })
+    await request(failingHook.server()).get('/login').expect(500)
+    expect(sessionCounts).toEqual([1])
+    expect(await store.listByUser('alice')).toHaveLength(0)
+  })
+
+  it('should keep the current session when regenerate fails to evict', async () => {
+    const store = createStore()
+    const app = createApp(store, { limit: 1 })
+    const device1 = await loginFromNewDevice(app)
+    const device2 = await loginFromNewDevice(app, '/anonymous')
+
+    const onRegenerate = vi.fn()
+    const failingEviction = createApp({ ...store, destroyByUser: async () => undefined }, { limit: 1 }, { onRegenerate })
+    const res = await request(failingEviction.server()).get('/regenerate').set('Cookie', device2).expect(200)
+    // 回滚后不会下发新的 sessionId
+    expect(res.headers['set-cookie'] ?? []).not.toContainEqual(expect.stringMatching(/^sess:k=/))
+    expect(onRegenerate).not.toHaveBeenCalled()
+
+    expect(await whoAmI(app, device1)).toEqual({ userId: 'alice' })
+    expect(await whoAmI(app, device2)).toEqual({ userId: 'alice' })
+  })
+
+  it('should not count the session that logs in again', async () => {
+    const store = createStore()
+    const app = createApp(store, { limit: 1, strategy: 'reject' })
+
+    const device1 = await loginFromNewDevice(app)
+    const res = await request(app.server()).get('/login').set('Cookie', device1).expect(200)
+    expect(res.body.userData).toEqual({ userId: 'alice' })
+    expect(await store.listByUser('alice')).toHaveLength(1)
+  })
+
+  it('should let a callback choose the sessions to sign out', async () => {
+    const store = createStore()
+    const strategy = vi.fn(({ request }: SessionLimitContext<UserData>): SessionLimitDecision => {
+      const signOut = request.headers?.['x-sign-out']
+      return typeof signOut === 'string' ? { evict: [signOut] } : 'reject'
+    })
+    const app = createApp(store, { limit: 2, strategy })
+
+    const device1 = await loginFromNewDevice(app)
+    const device2 = await loginFromNewDevice(app)
+
+    // 第一次登录被拒绝，返回已登录的设备供用户选择
+    const res1 = await request(app.server()).get('/login').expect(409)
+    expect(strategy).toHaveBeenLastCalledWith(
+      expect.objectContaining({ userId: 'alice', limit: 2, userData: { userId: 'alice' } }),
+    )
+    const { body } = await request(app.server()).get('/').set('Cookie', device1).expect(200)
+    expect(res1.body.sessions).toContain(body.sessionId)
+
+    // 选择退出其中一台设备后重新登录
+    await request(app.server()).get('/login').set('X-Sign-Out', body.sessionId).expect(200)
+
+    expect(await whoAmI(app, device1)).toEqual({})
+    expect(await whoAmI(app, device2)).toEqual({ userId: 'alice' })
+    expect(await store.listByUser('alice')).toHaveLength(2)
+  })
+
+  it('should require a store that indexes sessions by user', () => {
+    expect(() =>
+      createApp(cookieSessionStore<UserData>({ secret: 'test-secret' }), { limit: 1 }),
+    ).toThrow('maxSessionsPerUser requires a SessionStore that implements userIdOf, listByUser and destroyByUser')
+    expect(() => createApp(memorySessionStore<UserData>({ sweepInterval: 0 }), { limit: 1 })).toThrow()
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from 'vitest'
+import request from 'supertest'
+import { Response } from 'farrow-http'
+import { cookieSessionStore } from '../src/cookie'
+import { memorySessionStore } from '../src/memory'
+import { SessionHooks, SessionStore } from '../src/auth'
+import { jsonSerializer } from '../src/serializer'
+import { createSessionApp, toRequestCookies } from './helpers'
+
+type UserData = { userId?: string; cart?: string[]; fail?: boolean; note?: string }
+
+// 写入带 fail 标记的数据时序列化失败，模拟 create 中途出错
+const createFailingStore = () =>
+  memorySessionStore<UserData>({
+    sweepInterval: 0,
+    serializer: {
+      serialize: (value) => {
+        if ((value as UserData).fail) throw new Error('serialize failed')
+        return jsonSerializer.serialize(value)
+      },
+      deserialize: jsonSerializer.deserialize,
+    },
+  })
+
+const createApp = (store: SessionStore<UserData, string>, hooks?: SessionHooks<UserData>, awaitHooks?: boolean) => {
+  const { app, sessionCtx } = createSessionApp({ sessionStore: store, hooks, awaitHooks })
+  app.use(async (request) => {
+    if (request.pathname === '/cart') {
+      sessionCtx.set({ cart: [...(sessionCtx.get()?.cart ?? []), 'apple'] })
+    }
+    if (request.pathname === '/login') {
+      const result = await sessionCtx
+        .login(
+          {
+            userId: 'user-1',
+            cart: ['banana'],
+            fail: request.query?.fail === '1',
+            ...(request.query?.large === '1' && { note: 'x'.repeat(20000) }),
+          },
+          {
+            merge: (anonymousData, userData) => ({
+              ...userData,
+              cart: [...(anonymousData?.cart ?? []), ...(userData?.cart ?? [])],
+            }),
+          },
+        )
+        .catch((error: Error) => {
+          // 业务代码捕获异常后继续处理请求，中间件仍会执行 autoSave
+          if (request.query?.large === '1') return error.name
+          throw error
+        })
+      return Response.json({ result: result ?? null, userData: sessionCtx.get() ?? null })
+    }
+    return Response.json({ userData: sessionCtx.get() ?? null })
+  })
+  return app
+}
+
+const startAnonymousCart = async (app: ReturnType<typeof createApp>) => {
+  const res = await request(app.server()).get('/cart').expect(200)
+  return toRequestCookies(res.headers['set-cookie'] as unknown as string[])
+}
+
+describe('Session login', () => {
+  it('should rotate the session id and merge anonymous data', async () => {
+    const onLogin = vi.fn()
+    const store = createFailingStore()
+    const app = createApp(store, { onLogin })
+    const anonymousCookies = await startAnonymousCart(app)
+
+    const res = await request(app.server()).get('/login').set('Cookie', anonymousCookies).expect(200)
+    expect(res.body).toEqual({ result: true, userData: { userId: 'user-1', cart: ['apple', 'banana'], fail: false } })
+
+    const loginCookies = toRequestCookies(res.headers['set-cookie'] as unknown as string[])
+    expect(loginCookies).not.toEqual(anonymousCookies)
+    expect(store.size).toBe(1)
+
+    const res2 = await request(app.server()).get('/').set('Cookie', loginCookies).expect(200)
+    expect(res2.body.userData).toEqual({ userId: 'user-1', cart: ['apple', 'banana'], fail: false })
+
+    // 旧的 sessionId 已失效，防止会话固定攻击
+    const res3 = await request(app.server()).get('/').set('Cookie', anonymousCookies).expect(200)
+    expect(res3.body.userData).toEqual({})
+
+    expect(onLogin).toHaveBeenCalledTimes(1)
+    const context = onLogin.mock.calls[0]![0]
+    expect(context.anonymousData).toEqual({ cart: ['apple'] })
+    expect(context.previousSessionId).toEqual(expect.any(String))
+    expect(context.sessionId).not.toBe(context.previousSessionId)
+  })
+
+  it('should roll back to the anonymous session when creating the session fails', async () => {
+    const onError = vi.fn()
+    const store = createFailingStore()
+    const app = createApp(store, { onError })
+    const anonymousCookies = await startAnonymousCart(app)
+
+    const res = await request(app.server()).get('/login?fail=1').set('Cookie', anonymousCookies).expect(200)
+    expect(res.body).toEqual({ result: null, userData: { cart: ['apple'] } })
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ operation: 'create' }))
+    expect(store.size).toBe(1)
+
+    const res2 = await request(app.server()).get('/').set('Cookie', anonymousCookies).expect(200)
+    expect(res2.body.userData).toEqual({ cart: ['apple'] })
+  })
+
+  it('should roll back when the onLogin hook throws', async () => {
+    const store = createFailingStore()
+    const app = createApp(store, {
+      onLogin: async () => {
+        throw new Error('audit log unavailable')
+      },
+    })
+    const anonymousCookies = await startAnonymousCart(app)
+
+    await request(app.server()).get('/login').set('Cookie', anonymousCookies).expect(500)
+    expect(store.size).toBe(1)
+
+    const res = await request(app.server()).get('/').set('Cookie', anonymousCookies).expect(200)
+    expect(res.body.userData).toEqual({ cart: ['apple'] })
+  })
+
+  it('should await onLogin and roll back even when awaitHooks is false', async () => {
+    const store = createFailingStore()
+    const app = createApp(
+      store,
+      {
+        onLogin: async () => {
+          throw new Error('audit log unavailable')
+        },
+      },
+      false,
+    )
+    const anonymousCookies = await startAnonymousCart(app)
+
+    await request(app.server()).get('/login').set('Cookie', anonymousCookies).expect(500)
+    expect(store.size).toBe(1)
+
+    const res = await request(app.server()).get('/').set('Cookie', anonymousCookies).expect(200)
+    expect(res.body.userData).toEqual({ cart: ['apple'] })
+  })
+
+  it('should roll back when creating the session throws', async () => {
+    const onLogin = vi.fn()
+    const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret' }), { onLogin })
+    const anonymousCookies = await startAnonymousCart(app)
+
+    // Cookie Store 在 create 中设置了新的 sessionId 后才抛出 SessionDataTooLargeError
+    const res = await request(app.server()).get('/login?large=1').set('Cookie', anonymousCookies).expect(200)
+    expect(res.body).toEqual({ result: 'SessionDataTooLargeError', userData: { cart: ['apple'] } })
+    // 只重新写入匿名数据，不会下发新的 sessionId
+    const setCookies = res.headers['set-cookie'] as unknown as string[]
+    expect(setCookies).not.toContainEqual(expect.stringMatching(/^sess:k=/))
+    expect(onLogin).not.toHaveBeenCalled()
+
+    const cookies = toRequestCookies([...anonymousCookies, ...setCookies])
+    const res2 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual({ cart: ['apple'] })
+  })
+})
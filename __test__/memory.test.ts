@@ -0,0 +1,342 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import request from 'supertest'
+import { Http, Response } from 'farrow-http'
+import { memorySessionStore } from '../src/memory'
+import { cookieSessionParser } from '../src/cookie'
+import { createSessionCtx, createFarrowSession } from '../src/auth'
+import { oneMinute } from '../src/utils'
+
+describe('Memory Module', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const createApp = (store: ReturnType<typeof memorySessionStore<{ id: string; counter: number }>>) => {
+    const sessionCtx = createSessionCtx<{ id: string; counter: number }>({ id: '', counter: 0 })
+    const app = Http()
+    app.use(
+      createFarrowSession({
+        sessionUserDataCtx: sessionCtx,
+        autoSave: true,
+        autoCreateOnMissing: true,
+        sessionParser: cookieSessionParser(),
+        sessionStore: store,
+      }),
+    )
+    app.get('/').use(() => {
+      const userData = sessionCtx.get()
+      if (!userData || !userData.id) {
+        sessionCtx.set({ id: 'user-1', counter: 1 })
+      } else {
+        sessionCtx.set({ ...userData, counter: userData.counter + 1 })
+      }
+      return Response.json({ userData: sessionCtx.get() })
+    })
+    app.get('/read').use(() => {
+      return Response.json({ userData: sessionCtx.get() })
+    })
+    app.post('/regenerate').use(async () => {
+      const result = await sessionCtx.regenerate()
+      return Response.json({ regenerated: result })
+    })
+    app.post('/logout').use(async () => {
+      const result = await sessionCtx.destroy()
+      return Response.json({ destroyed: result })
+    })
+    app.post('/destroy-others').use(async () => {
+      const result = await sessionCtx.destroyOthers()
+      return Response.json({ destroyed: result })
+    })
+    return app
+  }
+
+  it('should throw error if both rolling and renew are true', () => {
+    expect(() => memorySessionStore({ rolling: true, renew: true })).toThrow(
+      'Cannot use both rolling and renew modes at the same time',
+    )
+  })
+
+  it('should keep session data on the server keyed by session id', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>()
+    const app = createApp(store)
+
+    const res1 = await request(app.server()).get('/').expect(200)
+    expect(res1.body.userData).toEqual({ id: 'user-1', counter: 1 })
+    expect(store.size).toBe(1)
+
+    const cookies = res1.headers['set-cookie'] as unknown as string[]
+    expect(cookies.some((cookie) => cookie.startsWith('sess:data'))).toBe(false)
+
+    const res2 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual({ id: 'user-1', counter: 2 })
+    expect(store.size).toBe(1)
+
+    store.stopSweep()
+  })
+
+  it('should treat expired sessions as missing', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({ maxAge: 1000 })
+    const app = createApp(store)
+
+    const res1 = await request(app.server()).get('/').expect(200)
+    const cookies = res1.headers['set-cookie'] as unknown as string[]
+
+    vi.advanceTimersByTime(2000)
+
+    const res2 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual({ id: 'user-1', counter: 1 })
+
+    store.stopSweep()
+  })
+
+  it('should extend expiration with touch in rolling mode', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({
+      rolling: true,
+      maxAge: 30 * oneMinute * 1000,
+      sweepInterval: 0,
+    })
+    const app = createApp(store)
+
+    const res1 = await request(app.server()).get('/').expect(200)
+    const cookies = res1.headers['set-cookie'] as unknown as string[]
+
+    // 每次只读访问都会通过 touch 续期
+    for (let i = 0; i < 3; i++) {
+      vi.advanceTimersByTime(20 * oneMinute * 1000)
+      const res = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+      expect(res.body.userData).toEqual({ id: 'user-1', counter: 1 })
+    }
+  })
+
+  it('should expire at absoluteMaxAge even in rolling mode', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({
+      rolling: true,
+      maxAge: 30 * oneMinute * 1000,
+      absoluteMaxAge: 60 * oneMinute * 1000,
+      sweepInterval: 0,
+    })
+    const app = createApp(store)
+
+    const res1 = await request(app.server()).get('/').expect(200)
+    const cookies = res1.headers['set-cookie'] as unknown as string[]
+
+    for (let i = 0; i < 2; i++) {
+      vi.advanceTimersByTime(20 * oneMinute * 1000)
+      const res = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+      expect(res.body.userData).toEqual({ id: 'user-1', counter: 1 })
+    }
+
+    // 自创建起已超过 60 分钟
+    vi.advanceTimersByTime(20 * oneMinute * 1000)
+    const res = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+    expect(res.body.userData).toEqual({})
+  })
+
+  it('should invalidate idle sessions before maxAge elapses', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({
+      maxAge: 60 * oneMinute * 1000,
+      idleTimeout: 15 * oneMinute * 1000,
+      sweepInterval: 0,
+    })
+    const app = createApp(store)
+
+    const res1 = await request(app.server()).get('/').expect(200)
+    const cookies = res1.headers['set-cookie'] as unknown as string[]
+
+    // 只读访问通过 touch 更新最近活动时间
+    for (let i = 0; i < 3; i++) {
+      vi.advanceTimersByTime(10 * oneMinute * 1000)
+      const res = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+      expect(res.body.userData).toEqual({ id: 'user-1', counter: 1 })
+    }
+
+    vi.advanceTimersByTime(15 * oneMinute * 1000)
+    expect(store.sweep()).toBe(1)
+    const res = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+    expect(res.body.userData).toEqual({})
+  })
+
+  it('should only renew when near expiry in renew mode', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({
+      renew: true,
+      renewBefore: 10 * oneMinute * 1000,
+      maxAge: 30 * oneMinute * 1000,
+      sweepInterval: 0,
+    })
+    const app = createApp(store)
+
+    const res1 = await request(app.server()).get('/').expect(200)
+    const cookies = res1.headers['set-cookie'] as unknown as string[]
+
+    // 未续期时不重新下发 cookie
+    vi.advanceTimersByTime(5 * oneMinute * 1000)
+    const res2 = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+    expect(res2.headers['set-cookie']).toBeUndefined()
+
+    // 25 分钟后剩余 5 分钟，此次访问触发续期
+    vi.advanceTimersByTime(20 * oneMinute * 1000)
+    const res3 = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+    expect(res3.headers['set-cookie']).toEqual([expect.stringMatching(/^sess:k=/)])
+
+    vi.advanceTimersByTime(20 * oneMinute * 1000)
+    const res = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+    expect(res.body.userData).toEqual({ id: 'user-1', counter: 1 })
+  })
+
+  it('should drop the old session on regenerate', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({ sweepInterval: 0 })
+    const app = createApp(store)
+
+    const res1 = await request(app.server()).get('/').expect(200)
+    const cookies = res1.headers['set-cookie'] as unknown as string[]
+
+    const res2 = await request(app.server()).post('/regenerate').set('Cookie', cookies).expect(200)
+    expect(res2.body).toEqual({ regenerated: true })
+    expect(store.size).toBe(1)
+
+    // 旧的 session id 已失效
+    const res3 = await request(app.server()).get('/read').set('Cookie', cookies).expect(200)
+    expect(res3.body.userData).toEqual({})
+  })
+
+  it('should destroy session', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({ sweepInterval: 0 })
+    const app = createApp(store)
+
+    const res1 = await request(app.server()).get('/').expect(200)
+    const cookies = res1.headers['set-cookie'] as unknown as string[]
+
+    const res2 = await request(app.server()).post('/logout').set('Cookie', cookies).expect(200)
+    expect(res2.body).toEqual({ destroyed: true })
+    expect(store.size).toBe(0)
+  })
+
+  it('should sweep expired sessions periodically', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({
+      maxAge: 1000,
+      sweepInterval: 5000,
+    })
+    const app = createApp(store)
+
+    await request(app.server()).get('/').expect(200)
+    await request(app.server()).get('/').expect(200)
+    expect(store.size).toBe(2)
+
+    vi.advanceTimersByTime(5000)
+    expect(store.size).toBe(0)
+
+    store.stopSweep()
+  })
+
+  it('should evict the least recently used session when maxEntries is exceeded', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({ maxEntries: 2, sweepInterval: 0 })
+    const app = createApp(store)
+
+    const res1 = await request(app.server()).get('/').expect(200)
+    const cookies1 = res1.headers['set-cookie'] as unknown as string[]
+    const res2 = await request(app.server()).get('/').expect(200)
+    const cookies2 = res2.headers['set-cookie'] as unknown as string[]
+
+    // 访问第一个 session，使第二个成为最久未使用
+    await request(app.server()).get('/read').set('Cookie', cookies1).expect(200)
+
+    await request(app.server()).get('/').expect(200)
+    expect(store.size).toBe(2)
+
+    const res4 = await request(app.server()).get('/read').set('Cookie', cookies1).expect(200)
+    expect(res4.body.userData).toEqual({ id: 'user-1', counter: 1 })
+
+    const res5 = await request(app.server()).get('/read').set('Cookie', cookies2).expect(200)
+    expect(res5.body.userData).toEqual({})
+  })
+
+  it('should index sessions by user and destroy the other devices', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({
+      sweepInterval: 0,
+      userIdOf: (userData) => userData.id || undefined,
+    })
+    const app = createApp(store)
+
+    const devices: string[][] = []
+    for (let i = 0; i < 3; i++) {
+      const res = await request(app.server()).get('/').expect(200)
+      devices.push(res.headers['set-cookie'] as unknown as string[])
+    }
+    const sessions = await store.listByUser('user-1')
+    expect(sessions).toHaveLength(3)
+    expect(sessions![0]).toMatchObject({
+      sessionId: expect.any(String),
+      expiresTime: expect.any(Number),
+      createdAt: expect.any(Number),
+      lastSeenAt: expect.any(Number),
+      ip: expect.any(String),
+    })
+
+    const res1 = await request(app.server()).post('/destroy-others').set('Cookie', devices[0]!).expect(200)
+    expect(res1.body.destroyed).toBe(true)
+    expect(await store.listByUser('user-1')).toHaveLength(1)
+
+    // 当前设备保留，其他设备需要重新登录
+    const res2 = await request(app.server()).get('/read').set('Cookie', devices[0]!).expect(200)
+    expect(res2.body.userData).toEqual({ id: 'user-1', counter: 1 })
+    const res3 = await request(app.server()).get('/read').set('Cookie', devices[1]!).expect(200)
+    expect(res3.body.userData).toEqual({})
+
+    await request(app.server()).post('/logout').set('Cookie', devices[0]!).expect(200)
+    expect(await store.listByUser('user-1')).toEqual([])
+  })
+
+  it('should not restore a session destroyed during the request', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({
+      sweepInterval: 0,
+      userIdOf: (userData) => userData.id || undefined,
+    })
+    const res1 = await request(createApp(store).server()).get('/').expect(200)
+
+    // 请求处理期间，其他设备销毁了该用户的所有 session
+    const app = createApp({
+      ...store,
+      get: async (sessionId) => {
+        const userData = await store.get(sessionId)
+        await store.destroyByUser('user-1')
+        return userData
+      },
+    })
+    await request(app.server())
+      .get('/')
+      .set('Cookie', res1.headers['set-cookie'] as unknown as string[])
+      .expect(401)
+    expect(await store.listByUser('user-1')).toEqual([])
+    expect(store.size).toBe(0)
+  })
+
+  it('should skip expired sessions when listing by user', async () => {
+    const store = memorySessionStore<{ id: string; counter: number }>({
+      maxAge: oneMinute * 1000,
+      sweepInterval: 0,
+      userIdOf: (userData) => userData.id || undefined,
+    })
+    const app = createApp(store)
+
+    await request(app.server()).get('/').expect(200)
+    vi.advanceTimersByTime(2 * oneMinute * 1000)
+    await request(app.server()).get('/').expect(200)
+
+    expect(await store.listByUser('user-1')).toHaveLength(1)
+    expect(await store.destroyByUser('user-1')).toBe(2)
+    expect(store.size).toBe(0)
+  })
+
+  it('should require a user index for destroyOthers', async () => {
+    const app = createApp(memorySessionStore<{ id: string; counter: number }>({ sweepInterval: 0 }))
+    const res = await request(app.server()).get('/').expect(200)
+    await request(app.server())
+      .post('/destroy-others')
+      .set('Cookie', res.headers['set-cookie'] as unknown as string[])
+      .expect(500)
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest'
+import request from 'supertest'
+import { Response } from 'farrow-http'
+import { cookieSessionStore } from '../src/cookie'
+import { memorySessionStore } from '../src/memory'
+import { createKeyValueSessionStore, memoryKeyValueBackend } from '../src/kv'
+import { SessionStore } from '../src/auth'
+import { SessionMigrations, defineSessionMigration, migrateSessionData } from '../src/migration'
+import { createSessionApp, toRequestCookies } from './helpers'
+
+type UserData = { user: { id: string; name: string }; roles: string[] }
+
+// 版本 0: { userId, userName }，版本 1: { user: { id, name } }，版本 2: 增加 roles
+const createMigrations = (): SessionMigrations => [
+  defineSessionMigration(
+    vi.fn((oldData: { userId: string; userName: string }) => ({ user: { id: oldData.userId, name: oldData.userName } })),
+  ),
+  defineSessionMigration(vi.fn((oldData: { user: { id: string; name: string } }) => ({ ...oldData, roles: [] }))),
+]
+
+const createApp = (store: SessionStore<UserData, string>) => {
+  const { app, sessionCtx } = createSessionApp({ sessionStore: store })
+  app.use((request) => {
+    if (request.pathname === '/legacy') {
+      // 模拟版本 0 的旧数据
+      sessionCtx.set({ userId: 'user-1', userName: 'Alice' } as unknown as UserData)
+    }
+    return Response.json({ userData: sessionCtx.get() })
+  })
+  return app
+}
+
+const migratedUserData = { user: { id: 'user-1', name: 'Alice' }, roles: [] }
+
+describe('Session Migrations', () => {
+  describe('migrateSessionData', () => {
+    it('should run the upgraders from the stored version', () => {
+      const migrations = createMigrations()
+
+      expect(migrateSessionData(migrations, { userId: 'user-1', userName: 'Alice' })).toEqual(migratedUserData)
+      expect(migrateSessionData(migrations, { user: { id: 'user-1', name: 'Alice' } }, 1)).toEqual(migratedUserData)
+      expect(migrations[0]).toHaveBeenCalledTimes(1)
+      expect(migrations[1]).toHaveBeenCalledTimes(2)
+    })
+
+    it('should return null for data newer than the latest version', () => {
+      expect(migrateSessionData(createMigrations(), migratedUserData, 3)).toBeNull()
+    })
+  })
+
+  it('should upgrade and save back memory store sessions', async () => {
+    // 内存中的数据无法跨 store 共享，通过向同一个列表追加升级函数来模拟新版本上线
+    const migrations: SessionMigrations = []
+    const app = createApp(memorySessionStore<UserData>({ sweepInterval: 0, migrations }))
+    const legacyRes = await request(app.server()).get('/legacy').expect(200)
+    const cookies = toRequestCookies(legacyRes.headers['set-cookie'] as unknown as string[])
+
+    migrations.push(...createMigrations())
+    const res1 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res1.body.userData).toEqual(migratedUserData)
+
+    const res2 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual(migratedUserData)
+    expect(migrations[0]).toHaveBeenCalledTimes(1)
+  })
+
+  it('should upgrade key-value store sessions and persist the new version', async () => {
+    const backend = memoryKeyValueBackend()
+    const legacyRes = await request(createApp(createKeyValueSessionStore<UserData>({ backend })).server())
+      .get('/legacy')
+      .expect(200)
+    const cookies = toRequestCookies(legacyRes.headers['set-cookie'] as unknown as string[])
+
+    const migrations = createMigrations()
+    const app = createApp(createKeyValueSessionStore<UserData>({ backend, migrations }))
+
+    const res1 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res1.body.userData).toEqual(migratedUserData)
+
+    const sessionId = Buffer.from(cookies.find((cookie) => cookie.startsWith('sess:k='))!.slice('sess:k='.length), 'base64').toString()
+    const storedData = JSON.parse((await backend.get(`sess:${sessionId}`))!)
+    expect(storedData._version).toBe(2)
+    expect(storedData._data).toEqual(migratedUserData)
+
+    // 已写回最新版本，不再执行升级函数
+    const res2 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual(migratedUserData)
+    expect(migrations[0]).toHaveBeenCalledTimes(1)
+  })
+
+  it('should upgrade cookie store sessions and re-issue the cookie', async () => {
+    const legacyRes = await request(createApp(cookieSessionStore<UserData>({ secret: 'test-secret' })).server())
+      .get('/legacy')
+      .expect(200)
+    const legacyCookies = toRequestCookies(legacyRes.headers['set-cookie'] as unknown as string[])
+
+    const migrations = createMigrations()
+    const app = createApp(cookieSessionStore<UserData>({ secret: 'test-secret', migrations }))
+
+    const res1 = await request(app.server()).get('/').set('Cookie', legacyCookies).expect(200)
+    expect(res1.body.userData).toEqual(migratedUserData)
+    const cookies = toRequestCookies([...legacyRes.headers['set-cookie'], ...res1.headers['set-cookie']])
+
+    const res2 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual(migratedUserData)
+    expect(migrations[0]).toHaveBeenCalledTimes(1)
+  })
+
+  it('should start a new session when the stored version is newer than the code', async () => {
+    const backend = memoryKeyValueBackend()
+    const newerApp = createApp(createKeyValueSessionStore<UserData>({ backend, migrations: createMigrations() }))
+    const res1 = await request(newerApp.server()).get('/legacy').expect(200)
+    const cookies = toRequestCookies(res1.headers['set-cookie'] as unknown as string[])
+
+    // 回滚到只有一个升级函数的版本
+    const olderApp = createApp(createKeyValueSessionStore<UserData>({ backend, migrations: createMigrations().slice(0, 1) }))
+    const res2 = await request(olderApp.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual({})
+  })
+})
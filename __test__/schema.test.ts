@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import request from 'supertest'
+import { Response } from 'farrow-http'
+import { Err, Number, ObjectType, Ok, String } from 'farrow-schema'
+import { ValidationResult } from 'farrow-schema/validator'
+import { memorySessionStore } from '../src/memory'
+import { SchemaMismatchPolicy, SessionSchema } from '../src/auth'
+import { createSessionApp } from './helpers'
+
+class UserSchema extends ObjectType {
+  userId = String
+  visits = Number
+}
+
+type UserData = { userId: string; visits: number }
+type Store = ReturnType<typeof memorySessionStore<UserData>>
+
+const createApp = (store: Store, schema?: SessionSchema<UserData>, onSchemaMismatch?: SchemaMismatchPolicy) => {
+  const { app, sessionCtx } = createSessionApp({
+    sessionStore: store,
+    defaultData: { userId: '', visits: 0 },
+    schema,
+    onSchemaMismatch,
+  })
+  app.use((request) => {
+    if (request.pathname === '/login') {
+      sessionCtx.set({ userId: 'user-1', visits: 3 })
+    }
+    if (request.pathname === '/legacy') {
+      // 模拟结构变更前写入的旧数据
+      sessionCtx.set({ userId: 'user-1', visits: '3' } as unknown as UserData)
+    }
+    return Response.json({ userData: sessionCtx.get() })
+  })
+  return app
+}
+
+// 使用未配置 schema 的应用写入数据，返回对应的 cookie
+const seedSession = async (store: Store, pathname: '/login' | '/legacy') => {
+  const res = await request(createApp(store).server()).get(pathname).expect(200)
+  return res.headers['set-cookie'] as unknown as string[]
+}
+
+const sessionIdOf = (cookies: string[]) =>
+  cookies
+    .filter((cookie) => cookie.startsWith('sess:k='))
+    .pop()
+    ?.split(';')[0]
+
+describe('Session Schema Validation', () => {
+  it('should accept data that matches the farrow-schema', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const cookies = await seedSession(store, '/login')
+    const app = createApp(store, UserSchema)
+
+    const res = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res.body.userData).toEqual({ userId: 'user-1', visits: 3 })
+  })
+
+  it('should discard invalid data and recreate the session by default', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const cookies = await seedSession(store, '/legacy')
+    const app = createApp(store, UserSchema)
+
+    const res = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res.body.userData).toEqual({})
+    expect(sessionIdOf(res.headers['set-cookie'] as unknown as string[])).not.toBe(sessionIdOf(cookies))
+    // 旧 session 已被替换
+    expect(store.size).toBe(1)
+  })
+
+  it('should return 400 when the policy is reject', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const cookies = await seedSession(store, '/legacy')
+    const app = createApp(store, UserSchema, 'reject')
+
+    const res1 = await request(app.server()).get('/').set('Cookie', cookies).expect(400)
+    expect(res1.body.error).toBe('Invalid Session Data')
+    // 无法使用的 session 和凭证已被清除
+    expect(res1.headers['set-cookie']).toEqual(expect.arrayContaining([expect.stringMatching(/^sess:k=;/)]))
+    expect(store.size).toBe(0)
+
+    // 仍携带旧凭证的请求会得到新的 session，而不是一直返回 400
+    const res2 = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual({})
+  })
+
+  it('should migrate invalid data and save it back', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const cookies = await seedSession(store, '/legacy')
+    const migrate: SchemaMismatchPolicy = (data) => {
+      const legacy = data as { userId: string; visits: string }
+      return { ...legacy, visits: parseInt(legacy.visits, 10) }
+    }
+
+    const res1 = await request(createApp(store, UserSchema, migrate).server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res1.body.userData).toEqual({ userId: 'user-1', visits: 3 })
+
+    // 迁移后的数据已经写回 store，不再需要迁移
+    const res2 = await request(createApp(store, UserSchema, 'reject').server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res2.body.userData).toEqual({ userId: 'user-1', visits: 3 })
+  })
+
+  it('should recreate the session when migrated data is still invalid', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const cookies = await seedSession(store, '/legacy')
+    const app = createApp(store, UserSchema, (data) => data)
+
+    const res = await request(app.server()).get('/').set('Cookie', cookies).expect(200)
+    expect(res.body.userData).toEqual({})
+  })
+
+  it('should support a custom validator function', async () => {
+    const store = memorySessionStore<UserData>({ sweepInterval: 0 })
+    const legacyCookies = await seedSession(store, '/legacy')
+    const validCookies = await seedSession(store, '/login')
+    const validator: SessionSchema<UserData> = (data: unknown): ValidationResult<UserData> => {
+      const userData = data as UserData
+      return typeof userData.visits === 'number' ? Ok(userData) : Err({ message: 'visits must be a number' })
+    }
+    const app = createApp(store, validator, 'reject')
+
+    const res1 = await request(app.server()).get('/').set('Cookie', validCookies).expect(200)
+    expect(res1.body.userData).toEqual({ userId: 'user-1', visits: 3 })
+
+    const res2 = await request(app.server()).get('/').set('Cookie', legacyCookies).expect(400)
+    expect(res2.body.message).toBe('visits must be a number')
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import request from 'supertest'
+import { Response } from 'farrow-http'
+import { cookieSessionStore } from '../src/cookie'
+import { memorySessionStore } from '../src/memory'
+import { createKeyValueSessionStore, memoryKeyValueBackend } from '../src/kv'
+import { SessionStore } from '../src/auth'
+import { jsonSerializer, richSerializer } from '../src/serializer'
+import { createSessionApp, toRequestCookies } from './helpers'
+
+type UserData = {
+  lastLoginAt: Date
+  visits: Map<string, number>
+  roles: Set<string>
+  balance: bigint
+  nickname: string | undefined
+}
+
+const createApp = (store: SessionStore<UserData, string>) => {
+  const { app, sessionCtx } = createSessionApp({ sessionStore: store })
+  app.use((request) => {
+    if (request.pathname === '/login') {
+      sessionCtx.set({
+        lastLoginAt: new Date(Date.UTC(2024, 0, 1)),
+        visits: new Map([['home', 1]]),
+        roles: new Set(['admin']),
+        balance: 10n ** 20n,
+        nickname: undefined,
+      })
+      return Response.json({ ok: true })
+    }
+    const userData = sessionCtx.get()!
+    return Response.json({
+      lastLoginAt: userData.lastLoginAt instanceof Date ? userData.lastLoginAt.toISOString() : null,
+      visits: userData.visits instanceof Map ? userData.visits.get('home') : null,
+      isAdmin: userData.roles instanceof Set ? userData.roles.has('admin') : null,
+      balance: typeof userData.balance === 'bigint' ? userData.balance.toString() : null,
+      hasNickname: 'nickname' in userData,
+    })
+  })
+  return app
+}
+
+describe('Serializer Module', () => {
+  describe('richSerializer', () => {
+    it('should round-trip Date, Map, Set, BigInt and undefined', () => {
+      const value = {
+        date: new Date(Date.UTC(2024, 0, 1)),
+        invalidDate: new Date(NaN),
+        map: new Map<unknown, unknown>([[1, new Set([new Date(0)])]]),
+        set: new Set([1n, 'a']),
+        bigint: -42n,
+        missing: undefined,
+        list: [undefined, null, 1],
+        nested: { $t: 'Date', v: 'not a tagged value' },
+      }
+
+      const result = richSerializer.deserialize(richSerializer.serialize(value)) as typeof value
+      expect(result).toEqual(value)
+      expect(result.date).toBeInstanceOf(Date)
+      expect(Number.isNaN(result.invalidDate.getTime())).toBe(true)
+      expect('missing' in result).toBe(true)
+      expect(result.nested).toEqual({ $t: 'Date', v: 'not a tagged value' })
+    })
+
+    it('should read data written by jsonSerializer', () => {
+      const value = { name: 'Alice', roles: ['admin'], profile: { age: 18 } }
+      expect(richSerializer.deserialize(jsonSerializer.serialize(value))).toEqual(value)
+    })
+  })
+
+  const stores: Array<[string, () => SessionStore<UserData, string>]> = [
+    ['cookieSessionStore', () => cookieSessionStore<UserData>({ secret: 'test-secret', serializer: richSerializer })],
+    ['memorySessionStore', () => memorySessionStore<UserData>({ sweepInterval: 0, serializer: richSerializer })],
+    [
+      'createKeyValueSessionStore',
+      () => createKeyValueSessionStore<UserData>({ backend: memoryKeyValueBackend(), serializer: richSerializer }),
+    ],
+  ]
+
+  for (const [name, createStore] of stores) {
+    it(`should keep rich types through a full request cycle with ${name}`, async () => {
+      const app = createApp(createStore())
+
+      const res1 = await request(app.server()).get('/login').expect(200)
+      const res2 = await request(app.server())
+        .get('/')
+        .set('Cookie', toRequestCookies(res1.headers['set-cookie'] as unknown as string[]))
+        .expect(200)
+
+      expect(res2.body).toEqual({
+        lastLoginAt: '2024-01-01T00:00:00.000Z',
+        visits: 1,
+        isAdmin: true,
+        balance: '100000000000000000000',
+        hasNickname: true,
+      })
+    })
+  }
+
+  it('should report an internal error for BigInt with the default jsonSerializer', async () => {
+    const app = createApp(memorySessionStore<UserData>({ sweepInterval: 0 }))
+
+    const res1 = await request(app.server()).get('/login').expect(500)
+    expect(res1.body).toEqual({ error: 'Internal Server Error' })
+  })
+})
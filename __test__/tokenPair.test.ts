@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import request from 'supertest'
+import { Http, Response } from 'farrow-http'
+import { tokenPairSession } from '../src/tokenPair'
+import { memoryKeyValueBackend } from '../src/kv'
+import { createSessionCtx, createFarrowSession } from '../src/auth'
+import { oneMinute } from '../src/utils'
+
+type UserData = { userId: string; visits: number }
+
+const createApp = (backend = memoryKeyValueBackend()) => {
+  const sessionCtx = createSessionCtx<UserData | undefined>(undefined)
+  const app = Http()
+  app.use(
+    createFarrowSession({
+      sessionUserDataCtx: sessionCtx,
+      autoSave: true,
+      autoCreateOnMissing: false,
+      ...tokenPairSession<UserData | undefined>({
+        secret: 'test-secret',
+        backend,
+        accessTokenMaxAge: 5 * oneMinute * 1000,
+      }),
+    }),
+  )
+  app.post('/login').use(async () => {
+    sessionCtx.set({ userId: 'user-1', visits: 0 })
+    await sessionCtx.regenerate()
+    return Response.json({ ok: true })
+  })
+  app.post('/visit').use(() => {
+    const userData = sessionCtx.get()
+    if (userData) sessionCtx.set({ ...userData, visits: userData.visits + 1 })
+    return Response.json({ userData: sessionCtx.get() ?? null })
+  })
+  app.get('/me').use(() => {
+    return Response.json({ userData: sessionCtx.get() ?? null })
+  })
+  return app
+}
+
+const tokensOf = (res: { headers: Record<string, string> }) => ({
+  accessToken: res.headers['authorization']!,
+  refreshToken: res.headers['x-refresh-token']!,
+})
+
+describe('Token Pair Module', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should issue an access/refresh token pair on login', async () => {
+    const app = createApp()
+
+    const res1 = await request(app.server()).post('/login').expect(200)
+    const tokens = tokensOf(res1)
+    expect(tokens.accessToken).toMatch(/^Bearer /)
+    expect(tokens.refreshToken).toBeTruthy()
+
+    const res2 = await request(app.server()).get('/me').set('Authorization', tokens.accessToken).expect(200)
+    expect(res2.body.userData).toEqual({ userId: 'user-1', visits: 0 })
+  })
+
+  it('should re-issue the access token when data changes', async () => {
+    const app = createApp()
+    const tokens = tokensOf(await request(app.server()).post('/login').expect(200))
+
+    const res1 = await request(app.server()).post('/visit').set('Authorization', tokens.accessToken).expect(200)
+    expect(res1.body.userData).toEqual({ userId: 'user-1', visits: 1 })
+    expect(res1.headers['authorization']).not.toBe(tokens.accessToken)
+    expect(res1.headers['x-refresh-token']).toBeUndefined()
+
+    const res2 = await request(app.server()).get('/me').set('Authorization', res1.headers['authorization']!).expect(200)
+    expect(res2.body.userData).toEqual({ userId: 'user-1', visits: 1 })
+  })
+
+  it('should transparently refresh an expired access token', async () => {
+    const app = createApp()
+    const tokens = tokensOf(await request(app.server()).post('/login').expect(200))
+    await request(app.server()).post('/visit').set('Authorization', tokens.accessToken).expect(200)
+
+    vi.advanceTimersByTime(10 * oneMinute * 1000)
+
+    const res = await request(app.server())
+      .get('/me')
+      .set('Authorization', tokens.accessToken)
+      .set('X-Refresh-Token', tokens.refreshToken)
+      .expect(200)
+    // 数据来自后端保存的 token 家族
+    expect(res.body.userData).toEqual({ userId: 'user-1', visits: 1 })
+
+    const rotated = tokensOf(res)
+    expect(rotated.accessToken).toMatch(/^Bearer /)
+    expect(rotated.refreshToken).not.toBe(tokens.refreshToken)
+  })
+
+  it('should revoke the whole token family when a refresh token is reused', async () => {
+    const app = createApp()
+    const tokens = tokensOf(await request(app.server()).post('/login').expect(200))
+
+    const rotated = tokensOf(
+      await request(app.server()).get('/me').set('X-Refresh-Token', tokens.refreshToken).expect(200),
+    )
+
+    // 旧的 refresh token 被再次使用，只会得到一个新的匿名 session
+    const res1 = await request(app.server()).get('/me').set('X-Refresh-Token', tokens.refreshToken).expect(200)
+    expect(res1.body.userData).toEqual({})
+
+    // 合法的最新 refresh token 也随之失效
+    const res2 = await request(app.server()).get('/me').set('X-Refresh-Token', rotated.refreshToken).expect(200)
+    expect(res2.body.userData).toEqual({})
+  })
+
+  it('should not revoke the token family for a forged refresh token', async () => {
+    const app = createApp()
+    const tokens = tokensOf(await request(app.server()).post('/login').expect(200))
+    const familyId = tokens.refreshToken.slice(0, tokens.refreshToken.indexOf('.'))
+
+    const res1 = await request(app.server()).get('/me').set('X-Refresh-Token', `${familyId}.garbage`).expect(200)
+    expect(res1.body.userData).toEqual({})
+
+    // 合法的 refresh token 仍然可以使用
+    const res2 = await request(app.server()).get('/me').set('X-Refresh-Token', tokens.refreshToken).expect(200)
+    expect(res2.body.userData).toEqual({ userId: 'user-1', visits: 0 })
+  })
+
+  it('should revoke the token family on regenerate', async () => {
+    const backend = memoryKeyValueBackend()
+    const delSpy = vi.spyOn(backend, 'del')
+    const app = createApp(backend)
+
+    const tokens = tokensOf(await request(app.server()).post('/login').expect(200))
+    await request(app.server()).post('/login').set('Authorization', tokens.accessToken).expect(200)
+    expect(delSpy).toHaveBeenCalledTimes(1)
+
+    const res = await request(app.server()).get('/me').set('X-Refresh-Token', tokens.refreshToken).expect(200)
+    expect(res.body.userData).toEqual({})
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { oneMinute, oneHour, oneDay, oneWeek } from '../src/utils'
+import { nextExpiresTime, oneMinute, oneHour, oneDay, oneWeek } from '../src/utils'
 
 describe('Time Constants', () => {
   it('should define oneMinute as 60 seconds', () => {
@@ -26,4 +26,29 @@ describe('Time Constants', () => {
     expect(oneDay).toBe(oneHour * 24)
     expect(oneWeek).toBe(oneDay * 7)
   })
-})
\ No newline at end of file
+})
+describe('nextExpiresTime', () => {
+  const options = { maxAge: 1000, renewBefore: 300 }
+
+  it('should keep the expiration time by default', () => {
+    const now = Date.now()
+    expect(nextExpiresTime(options, now + 500, now)).toBe(now + 500)
+  })
+
+  it('should extend the expiration time in rolling mode', () => {
+    const now = Date.now()
+    const expiresTime = nextExpiresTime({ ...options, rolling: true }, now + 500, now)
+    expect(expiresTime).toBeGreaterThanOrEqual(now + 1000)
+  })
+
+  it('should only renew near expiry in renew mode', () => {
+    const now = Date.now()
+    expect(nextExpiresTime({ ...options, renew: true }, now + 500, now)).toBe(now + 500)
+    expect(nextExpiresTime({ ...options, renew: true }, now + 200, now)).toBeGreaterThanOrEqual(now + 1000)
+  })
+
+  it('should not exceed absoluteMaxAge', () => {
+    const now = Date.now()
+    expect(nextExpiresTime({ ...options, rolling: true, absoluteMaxAge: 600 }, now + 500, now)).toBe(now + 600)
+  })
+})
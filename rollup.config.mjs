@@ -4,7 +4,15 @@ import commonjs from '@rollup/plugin-commonjs'
 import { readFileSync } from 'fs'
 
 const pkg = JSON.parse(readFileSync('./package.json', 'utf8'))
-const external = [...Object.keys(pkg.dependencies || {}), ...Object.keys(pkg.peerDependencies || {}), 'crypto']
+const external = [
+  ...Object.keys(pkg.dependencies || {}),
+  ...Object.keys(pkg.peerDependencies || {}),
+  /^farrow-schema\//,
+  'crypto',
+  'zlib',
+  'path',
+  'fs/promises',
+]
 
 /** @type {import('rollup').RollupOptions[]} */
 export default [
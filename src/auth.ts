@@ -1,8 +1,22 @@
-import { MaybeAsyncResponse, RequestInfo, Response } from 'farrow-http'
+import { MaybeAsyncResponse, RequestInfo, Response, useRequestInfo } from 'farrow-http'
 import { Context, Middleware, createContext } from 'farrow-pipeline'
+import { Schema, SchemaCtor } from 'farrow-schema'
+import { ValidationResult, Validator } from 'farrow-schema/validator'
+import { sessionMigratedCtx } from './migration'
+import { SessionMetaData, sessionMetaDataCtx } from './meta'
+import { SessionClientInfo, SessionFingerprint, createFingerprint, sessionFingerprintCtx } from './client'
 
 // SessionStore 和SessionParser之间应通过共同约定的SessionMetaDataCtx进行通信，SessionMetaDataCtx中存储如Cookie有效时间等，SessionParser根据SessionMetaDataCtx中的信息进行设置
 
+/**
+ * 用户的一个 session（设备），由 listByUser 返回
+ */
+export type SessionInfo = SessionClientInfo & {
+  sessionId: string
+  expiresTime: number
+  createdAt?: number
+  lastSeenAt?: number
+}
 
 export type SessionStore<UserData, Credit> = {
   /**
@@ -37,6 +51,26 @@ export type SessionStore<UserData, Credit> = {
    * @returns true 成功 | false 失败 | undefined 内部错误
    */
   touch?(): Promise<boolean | undefined>
+  /**
+   * 可选方法：login 回滚时按原有的 sessionId 和元数据写回被 create 删除的 session
+   * 未实现时退回到使用 set 写回，set 拒绝写入已删除 session 的 Store 需要实现此方法
+   *
+   * @returns true 成功 | false 失败 | undefined 内部错误
+   */
+  restore?(sessionMeta: SessionMetaData, userData: UserData): Promise<boolean | undefined>
+  /**
+   * 可选扩展：按用户索引 session，用于列出用户的所有设备、退出其他设备等
+   * userIdOf 从 userData 中读取所属用户，不属于任何用户时返回 undefined
+   */
+  userIdOf?(userData: UserData): string | undefined
+  /**
+   * 返回用户所有未过期的 session，发生内部错误时返回 undefined
+   */
+  listByUser?(userId: string): Promise<SessionInfo[] | undefined>
+  /**
+   * 销毁用户的所有 session（except 中的除外），返回销毁的数量，发生内部错误时返回 undefined
+   */
+  destroyByUser?(userId: string, options?: { except?: string | string[] }): Promise<number | undefined>
 }
 
 /**
@@ -56,20 +90,275 @@ export type SessionParser<Credit> = {
   remove(): Promise<Response>
 }
 
+/**
+ * 用于校验从 SessionStore 中读取的 userData
+ * 可以是 farrow-schema 的 Schema，也可以是返回 ValidationResult 的校验函数
+ */
+export type SessionSchema<UserData> = SchemaCtor | ((data: unknown) => ValidationResult<UserData>)
+
+/**
+ * userData 未通过校验时的处理策略
+ * - 'recreate': 丢弃旧数据并创建新的 session
+ * - 'reject': 销毁 session、清除凭证并返回 400
+ * - 函数：尝试将旧数据迁移为新的结构，迁移结果仍需通过校验，否则丢弃并创建新的 session
+ */
+export type SchemaMismatchPolicy = 'recreate' | 'reject' | ((data: unknown, message: string) => unknown | Promise<unknown>)
+
+/**
+ * 客户端指纹与创建 session 时记录的不一致时的处理方式
+ * - 'reject': 拒绝本次请求（401），session 保持不变
+ * - 'reauthenticate': 销毁 session，本次请求以新的匿名 session 继续，用户需要重新登录
+ * - 'regenerate': 保留数据并更换 sessionId，旧的凭证随之失效
+ * - 'report': 只触发 onFingerprintMismatch hook，正常处理请求
+ */
+export type SessionBindingAction = 'reject' | 'reauthenticate' | 'regenerate' | 'report'
+
+export type SessionBindingOptions = {
+  /**
+   * 指纹的来源：'user-agent'、'ip-subnet' 或根据 RequestInfo 计算的函数
+   */
+  fingerprint: SessionFingerprint
+  /**
+   * 指纹不一致时的处理方式，默认为 'reject'
+   */
+  onMismatch?: SessionBindingAction
+  /**
+   * 'ip-subnet' 是否信任 X-Forwarded-For 请求头，默认 false
+   */
+  trustProxy?: boolean
+}
+
+/**
+ * 用户的 session 数量达到上限时的处理方式
+ * - 'evict-oldest': 销毁最早创建的 session，为新的 session 腾出位置
+ * - 'reject': 抛出 SessionLimitExceededError，不创建新的 session
+ * - { evict }: 销毁指定的 session，剩余数量仍达到上限时抛出 SessionLimitExceededError
+ */
+export type SessionLimitDecision = 'evict-oldest' | 'reject' | { evict: string[] }
+
+export type SessionLimitOptions<UserData> = {
+  /**
+   * 每个用户最多同时存在的 session 数量
+   */
+  limit: number
+  /**
+   * 达到上限时的处理方式，默认为 'evict-oldest'
+   * 传入函数时根据用户已有的 session 决定，如让用户在登录时选择退出哪台设备
+   */
+  strategy?:
+    | SessionLimitDecision
+    | ((context: SessionLimitContext<UserData>) => SessionLimitDecision | Promise<SessionLimitDecision>)
+}
+
+/**
+ * 用户的 session 数量达到上限且未能淘汰已有 session 时，由 login/regenerate 抛出
+ */
+export class SessionLimitExceededError extends Error {
+  constructor(
+    public readonly userId: string,
+    public readonly limit: number,
+    public readonly sessions: SessionInfo[],
+  ) {
+    super(`User ${userId} already has ${sessions.length} active sessions, limit is ${limit}`)
+    this.name = 'SessionLimitExceededError'
+  }
+}
+
+export type SessionHookContext<UserData> = {
+  /**
+   * 来自 sessionMetaDataCtx 的 sessionId，session 不存在时为 undefined
+   */
+  sessionId?: string
+  request: RequestInfo
+  userData?: UserData
+}
+
+type SessionHook<Context> = (context: Context) => void | Promise<void>
+
+/**
+ * session 生命周期事件，可用于审计登录、统计 session 数量等
+ */
+export type SessionHooks<UserData> = {
+  // 创建新的 session 后触发
+  onCreate?: SessionHook<SessionHookContext<UserData>>
+  // 从 SessionStore 成功读取 session 后触发
+  onLoad?: SessionHook<SessionHookContext<UserData>>
+  // 请求携带的凭证无效（不存在、已过期或未通过校验）时触发
+  onInvalid?: SessionHook<SessionHookContext<UserData>>
+  // regenerate 成功后触发，previousSessionId 为旧的 sessionId
+  onRegenerate?: SessionHook<SessionHookContext<UserData> & { previousSessionId?: string }>
+  // login 成功后触发，previousSessionId 和 anonymousData 为登录前的匿名 session，hook 抛出错误时登录会被回滚
+  // 即使 awaitHooks 为 false 也会等待执行完成
+  onLogin?: SessionHook<SessionHookContext<UserData> & { previousSessionId?: string; anonymousData?: UserData }>
+  // destroy 成功后触发，sessionId 为被销毁的 sessionId
+  onDestroy?: SessionHook<SessionHookContext<UserData>>
+  // 数据写入 SessionStore 后触发，仅更新过期时间的 touch 不会触发
+  onSave?: SessionHook<SessionHookContext<UserData>>
+  // 客户端指纹与创建 session 时记录的不一致时触发，action 为随后的处理方式
+  onFingerprintMismatch?: SessionHook<SessionHookContext<UserData> & { action: SessionBindingAction }>
+  // SessionStore 发生内部错误（返回 undefined），或 awaitHooks 为 false 时在后台执行的 hook 抛出错误时触发
+  onError?: SessionHook<SessionErrorHookContext<UserData>>
+}
+
+export type SessionErrorHookContext<UserData> = SessionHookContext<UserData> &
+  (
+    | { operation: 'get' | 'create' | 'set' | 'touch' | 'destroy' }
+    | { operation: 'hook'; hook: Exclude<keyof SessionHooks<UserData>, 'onError'>; error: unknown }
+  )
+
+export type SessionLimitContext<UserData> = SessionHookContext<UserData> & {
+  userId: string
+  limit: number
+  // 用户的其他未过期 session，不包括当前请求的 session
+  sessions: SessionInfo[]
+}
+
+/**
+ * createFarrowSession 处理请求时可能发生的错误
+ * - STORE_GET_FAILED: sessionStore.get 发生内部错误
+ * - STORE_CREATE_FAILED: sessionStore.create 发生内部错误
+ * - STORE_SET_FAILED: sessionStore.set 发生内部错误
+ * - STORE_SET_REJECTED: sessionStore.set 返回 false（如 session 已不存在）
+ * - TOUCH_FAILED: sessionStore.touch 发生内部错误
+ * - TOUCH_REJECTED: sessionStore.touch 返回 false
+ * - INVALID_SESSION_DATA: userData 未通过 schema 校验且 onSchemaMismatch 为 'reject'
+ * - FINGERPRINT_MISMATCH: 客户端指纹与 session 绑定的不一致且 binding.onMismatch 为 'reject'
+ * - SESSION_LIMIT_EXCEEDED: binding.onMismatch 为 'regenerate' 时，用户的 session 数量达到 maxSessionsPerUser 的上限且不能淘汰
+ */
+export type SessionErrorKind =
+  | 'STORE_GET_FAILED'
+  | 'STORE_CREATE_FAILED'
+  | 'STORE_SET_FAILED'
+  | 'STORE_SET_REJECTED'
+  | 'TOUCH_FAILED'
+  | 'TOUCH_REJECTED'
+  | 'INVALID_SESSION_DATA'
+  | 'FINGERPRINT_MISMATCH'
+  | 'SESSION_LIMIT_EXCEEDED'
+
+export type SessionErrorContext<UserData> = SessionHookContext<UserData> & {
+  // 校验失败等情况下的错误信息
+  message?: string
+}
+
+/**
+ * 自定义错误处理
+ * - 返回 Response：发送该响应
+ * - 返回 'continue'：以匿名 session 继续处理请求，本次请求不再保存 session
+ * - 返回 undefined：使用默认的错误响应
+ */
+export type SessionErrorHandler<UserData> = (
+  kind: SessionErrorKind,
+  context: SessionErrorContext<UserData>,
+) => Response | 'continue' | void | Promise<Response | 'continue' | void>
+
 export type SessionConfig<UserData, Credit> = {
   autoCreateOnMissing: boolean;
+  /**
+   * 延迟创建：session 不存在或无效时不立即调用 sessionStore.create，sessionUserDataCtx 使用 createSessionCtx 的默认数据
+   * 只有在请求中调用 set 修改了数据后才创建 session 并设置凭证，避免为爬虫、健康检查等匿名请求创建 session
+   * 仅在 autoCreateOnMissing 为 true 时生效
+   */
+  lazy?: boolean
   sessionUserDataCtx: SessionUserDataCtx<UserData>
   autoSave: boolean
   sessionParser: SessionParser<Credit>
   sessionStore: SessionStore<UserData, Credit>
+  /**
+   * 可选：校验从 SessionStore 中读取的 userData，避免结构变更后旧数据以错误的类型进入业务逻辑
+   */
+  schema?: SessionSchema<UserData>
+  /**
+   * 校验失败时的处理策略，默认为 'recreate'
+   */
+  onSchemaMismatch?: SchemaMismatchPolicy
+  /**
+   * 可选：session 生命周期事件
+   */
+  hooks?: SessionHooks<UserData>
+  /**
+   * 是否等待 hooks 执行完成后再继续处理请求，默认为 true
+   * 设置为 false 时 hooks 在后台执行，不阻塞响应，执行失败时触发 onError（onLogin 除外，始终等待执行完成）
+   */
+  awaitHooks?: boolean
+  /**
+   * 可选：自定义错误响应，或选择以匿名 session 继续处理请求
+   */
+  onError?: SessionErrorHandler<UserData>
+  /**
+   * 可选：将 session 绑定到创建时的客户端指纹，防止被盗用的凭证在其他客户端重放
+   * 指纹由 SessionStore 随 session 一同保存，内置的 cookie、memory、kv Store 均已支持
+   */
+  binding?: SessionBindingOptions
+  /**
+   * 可选：限制每个用户同时存在的 session 数量，在 login/regenerate 时检查
+   * 需要 SessionStore 实现 userIdOf、listByUser 和 destroyByUser
+   */
+  maxSessionsPerUser?: SessionLimitOptions<UserData>
+}
+
+const validateSessionData = <UserData>(schema: SessionSchema<UserData>, data: unknown): ValidationResult<UserData> => {
+  if (schema.prototype instanceof Schema) {
+    return Validator.validate(schema as SchemaCtor, data) as ValidationResult<UserData>
+  }
+  return (schema as (data: unknown) => ValidationResult<UserData>)(data)
+}
+// 未配置 onError 或 onError 未返回结果时使用的错误响应
+const defaultErrorResponse = (kind: SessionErrorKind, message?: string) => {
+  switch (kind) {
+    case 'STORE_SET_REJECTED':
+      return Response.json({ error: 'SessionStore Set Failed' }).status(401)
+    case 'TOUCH_REJECTED':
+      return Response.json({ error: 'Session Touch Failed' }).status(401)
+    case 'INVALID_SESSION_DATA':
+      return Response.json({ error: 'Invalid Session Data', message }).status(400)
+    case 'FINGERPRINT_MISMATCH':
+      return Response.json({ error: 'Session Fingerprint Mismatch' }).status(401)
+    case 'SESSION_LIMIT_EXCEEDED':
+      return Response.json({ error: 'Session Limit Exceeded', message }).status(409)
+    default:
+      return Response.json({ error: 'Internal Server Error' }).status(500)
+  }
 }
+
+// 达到 session 数量上限时需要淘汰的 session：保留 keptSessionIds，淘汰该用户的其他 session
+type SessionLimitPlan = {
+  userId: string
+  keptSessionIds: string[]
+}
+
 // 创建一个独立的 Context 来存储修改状态（请求级隔离）
 const modifiedStateCtx = createContext<boolean>(false)
+// lazy 模式下当前请求的 session 是否等待创建（请求级隔离）
+const lazyCreationCtx = createContext<boolean>(false)
+
+export type SessionLoginOptions<D> = {
+  /**
+   * 可选：将登录前匿名 session 中需要保留的数据（如购物车）合并到登录后的数据中
+   */
+  merge?: (anonymousData: D | undefined, userData: D) => D | Promise<D>
+}
 
 export type SessionUserDataCtx<D> = Context<D|undefined> & {
   saveToStore: () => Promise<boolean | undefined>
+  /**
+   * 更换 sessionId 并保留当前的 userData
+   * 创建新的 session 或淘汰超出数量的 session 失败时回滚到原有的 session，不会下发新的凭证
+   * 配置了 maxSessionsPerUser 且不能淘汰已有 session 时抛出 SessionLimitExceededError
+   */
   regenerate: () => Promise<boolean | undefined>
+  /**
+   * 匿名 session 升级为登录 session：更换 sessionId 并写入（合并后的）userData
+   * 任何一步失败都会回滚到登录前的匿名 session
+   * 配置了 maxSessionsPerUser 且不能淘汰已有 session 时抛出 SessionLimitExceededError
+   */
+  login: (userData: D, options?: SessionLoginOptions<D>) => Promise<boolean | undefined>
   destroy: () => Promise<boolean | undefined>
+  /**
+   * 销毁当前用户在其他设备上的 session，保留当前 session，如修改密码后使用
+   * 需要 SessionStore 实现 userIdOf 和 destroyByUser
+   */
+  destroyOthers: () => Promise<boolean | undefined>
   readonly isModified: boolean  // 只读，用户只能查看不能修改
 }
 
@@ -90,11 +379,21 @@ export const createSessionCtx = <D>(defaultData: D): SessionUserDataCtx<D> => {
         'regenerate is not implemented yet,You need pass the sessionUserDataCtx function to the middleware to create it ',
       )
     },
+    login: async () => {
+      throw new Error(
+        'login is not implemented yet,You need pass the sessionUserDataCtx function to the middleware to create it ',
+      )
+    },
     destroy: async () => {
       throw new Error(
         'destroy is not implemented yet,You need pass the sessionUserDataCtx function to the middleware to create it ',
       )
     },
+    destroyOthers: async () => {
+      throw new Error(
+        'destroyOthers is not implemented yet,You need pass the sessionUserDataCtx function to the middleware to create it ',
+      )
+    },
   }, {
     get(target, prop) {
       if (prop === 'isModified') {
@@ -121,6 +420,9 @@ export const createSessionCtx = <D>(defaultData: D): SessionUserDataCtx<D> => {
 
 export const sessionHeaderCtx = createContext<Response[]>([])
 
+// 当前请求中 sessionId 是否已被 regenerate/login 更换，供需要随之轮换的数据（如 CSRF secret）使用
+export const sessionRegeneratedCtx = createContext<boolean>(false)
+
 // 辅助类型：从配置中提取类型
 export type InferUserData<T> = T extends SessionConfig<infer U, any> ? U : never
 export type InferCredit<T> = T extends SessionConfig<any, infer C> ? C : never
@@ -133,20 +435,227 @@ export const createFarrowSession = <
 >(
   config: TConfig
 ): Middleware<RequestInfo, MaybeAsyncResponse> => {
-  const { sessionParser, sessionStore, autoSave, sessionUserDataCtx } = config
+  const {
+    sessionParser,
+    sessionStore,
+    autoSave,
+    sessionUserDataCtx,
+    schema,
+    onSchemaMismatch = 'recreate',
+    hooks = {},
+    awaitHooks = true,
+    onError,
+    lazy = false,
+    binding,
+    maxSessionsPerUser,
+  } = config
+  
+  if (maxSessionsPerUser && (!sessionStore.userIdOf || !sessionStore.listByUser || !sessionStore.destroyByUser)) {
+    throw new Error('maxSessionsPerUser requires a SessionStore that implements userIdOf, listByUser and destroyByUser')
+  }
+  
+  // 调用 hook，awaitHooks 为 false 时在后台执行，错误交给 onError
+  const runHook = async <K extends keyof SessionHooks<TUserData>>(
+    name: K,
+    context: Parameters<NonNullable<SessionHooks<TUserData>[K]>>[0],
+  ) => {
+    const hook = hooks[name] as SessionHook<typeof context> | undefined
+    if (!hook) return
+    if (awaitHooks) {
+      await hook(context)
+    } else {
+      Promise.resolve()
+        .then(() => hook(context))
+        .catch((error: unknown) => {
+          // onError 自身失败时无法再交给 onError，以进程警告输出
+          if (name === 'onError') {
+            process.emitWarning(error instanceof Error ? error : String(error), 'SessionHookWarning')
+            return
+          }
+          const { sessionId, request, userData } = context
+          const hookName = name as Exclude<K, 'onError'>
+          return runHook('onError', { sessionId, request, userData, operation: 'hook', hook: hookName, error })
+        })
+    }
+  }
+  
+  // 使用当前请求的 session 信息构造 hook 的参数
+  const hookContext = (): SessionHookContext<TUserData> => ({
+    sessionId: sessionMetaDataCtx.get()?.sessionId,
+    request: useRequestInfo(),
+    userData: sessionUserDataCtx.get(),
+  })
+  
+  // 计算为 userData 所属用户的新 session 需要淘汰的 session，不能淘汰时抛出 SessionLimitExceededError
+  // 无需淘汰时返回 null，SessionStore 发生内部错误时返回 undefined
+  // 此时只做决定，淘汰在新的 session 创建成功后由 evictSessions 执行，失败时已登录的设备不受影响
+  const planSessionLimit = async (userData: TUserData): Promise<SessionLimitPlan | null | undefined> => {
+    if (!maxSessionsPerUser || !sessionStore.userIdOf || !sessionStore.listByUser) return null
+    const userId = sessionStore.userIdOf(userData)
+    if (userId === undefined) return null
+    
+    const sessions = await sessionStore.listByUser(userId)
+    if (sessions === undefined) {
+      await runHook('onError', { ...hookContext(), operation: 'get' })
+      return undefined
+    }
+    // 当前 session 会被新的 session 替换，不计入数量
+    const currentSessionId = sessionMetaDataCtx.get()?.sessionId
+    const otherSessions = sessions.filter((session) => session.sessionId !== currentSessionId)
+    const { limit, strategy = 'evict-oldest' } = maxSessionsPerUser
+    if (otherSessions.length < limit) return null
+    
+    const decision =
+      typeof strategy === 'function'
+        ? await strategy({ ...hookContext(), userData, userId, limit, sessions: otherSessions })
+        : strategy
+    if (decision === 'reject') {
+      throw new SessionLimitExceededError(userId, limit, otherSessions)
+    }
+    const evictedSessionIds =
+      decision === 'evict-oldest'
+        ? [...otherSessions]
+            .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0))
+            .slice(0, otherSessions.length - limit + 1)
+            .map((session) => session.sessionId)
+        : decision.evict
+    const keptSessionIds = otherSessions
+      .map((session) => session.sessionId)
+      .filter((sessionId) => !evictedSessionIds.includes(sessionId))
+    if (keptSessionIds.length >= limit) {
+      throw new SessionLimitExceededError(userId, limit, otherSessions)
+    }
+    return { userId, keptSessionIds }
+  }
+  
+  // 新的 session 创建成功后淘汰其他 session，保留的 session 和新的 session 不受影响
+  const evictSessions = async (plan: SessionLimitPlan | null) => {
+    if (!plan || !sessionStore.destroyByUser) return true
+    const sessionId = sessionMetaDataCtx.get()?.sessionId
+    const except = sessionId === undefined ? plan.keptSessionIds : [...plan.keptSessionIds, sessionId]
+    const destroyResult = await sessionStore.destroyByUser(plan.userId, { except })
+    if (destroyResult === undefined) {
+      await runHook('onError', { ...hookContext(), operation: 'destroy' })
+      return undefined
+    }
+    return true
+  }
+  
+  type ReplacedSession = { sessionMeta?: SessionMetaData; userData?: TUserData; sessionHeaders: Response[] }
+  
+  // login/regenerate 失败时回滚到被替换的 session
+  const restoreReplacedSession = async (replacedSession: ReplacedSession, created: boolean) => {
+    if (created) await sessionStore.destroy()
+    sessionMetaDataCtx.set(replacedSession.sessionMeta)
+    // create 会删除旧的 session（防止会话固定攻击），需要按原有的 sessionId 写回数据
+    if (replacedSession.sessionMeta && replacedSession.userData !== undefined) {
+      await (sessionStore.restore
+        ? sessionStore.restore(replacedSession.sessionMeta, replacedSession.userData)
+        : sessionStore.set(replacedSession.userData))
+    }
+    // 丢弃回滚过程中 Store 写入的响应头（如 Cookie Store 的数据 Cookie）
+    sessionHeaderCtx.set(replacedSession.sessionHeaders)
+  }
+  
+  // 凭证由 sessionId 和过期时间决定，保存后两者发生变化（如续期、重新签发 JWT）时才重新下发
+  const reissueChangedCredential = async (previousSessionMeta: SessionMetaData | undefined) => {
+    const sessionMeta = sessionMetaDataCtx.get()
+    if (
+      !sessionMeta ||
+      (sessionMeta.sessionId === previousSessionMeta?.sessionId &&
+        sessionMeta.expiresTime === previousSessionMeta.expiresTime)
+    ) {
+      return
+    }
+    const sessionHeader = await sessionParser.set()
+    sessionHeaderCtx.set([...sessionHeaderCtx.get(), sessionHeader])
+  }
+  
   const middleware: Middleware<RequestInfo, MaybeAsyncResponse> = async (request, next) => {
     // 从RequestInfo中解析获取用户凭证,存在两种结果：1，用户凭证不存在/过期/解析失败；2，用户凭证存在
     const unverifiedUserCredentials = await sessionParser.get(request)
+    // 读取 session 前 sessionUserDataCtx 中为 createSessionCtx 的默认数据
+    const defaultUserData = sessionUserDataCtx.get()
     
-    const createNewAuth=async()=>{
-      const createResult = await sessionStore.create()
-      if (!createResult) return Response.json({ error: 'Internal Server Error' }).status(500)
+    // 计算当前请求的客户端指纹，创建 session 时由 SessionStore 一同保存
+    if (binding) {
+      sessionFingerprintCtx.set(await createFingerprint(request, binding.fingerprint, { trustProxy: binding.trustProxy }))
+    }
+    
+    // onError 选择继续处理请求后为 true，此时以匿名 session 继续，不再保存 session
+    let degraded = false
+    
+    // 返回需要发送的错误响应，选择继续处理请求时返回 null
+    const handleError = async (kind: SessionErrorKind, context: SessionErrorContext<TUserData>) => {
+      const result = onError ? await onError(kind, context) : undefined
+      if (result === 'continue') {
+        degraded = true
+        sessionUserDataCtx.set(undefined)
+        return null
+      }
+      return result ?? defaultErrorResponse(kind, context.message)
+    }
+    
+    const createNewAuth=async(userData?: TUserData)=>{
+      const createResult = await sessionStore.create(userData)
+      if (!createResult) {
+        await runHook('onError', { ...hookContext(), operation: 'create' })
+        return handleError('STORE_CREATE_FAILED', hookContext())
+      }
+      lazyCreationCtx.set(false)
       sessionUserDataCtx.set(createResult)
       const sessionHeader = await sessionParser.set()
       sessionHeaderCtx.set([...sessionHeaderCtx.get(), sessionHeader])
+      await runHook('onCreate', hookContext())
       return null // 成功时返回 null
     }
     
+    // 替换不存在或无效的 session，lazy 模式下推迟到数据被修改后再创建
+    const replaceAuth = async () => {
+      if (!lazy || !config.autoCreateOnMissing) return createNewAuth()
+      lazyCreationCtx.set(true)
+      // 清除无效的凭证，避免后续请求重复查询
+      if (unverifiedUserCredentials) {
+        const sessionHeader = await sessionParser.remove()
+        sessionHeaderCtx.set([...sessionHeaderCtx.get(), sessionHeader])
+      }
+      return null
+    }
+    
+    // 旧数据经过迁移时为 true
+    let migrated = false
+    // 成功读取已有的 session 时为 true
+    let loaded = false
+    
+    // 校验读取到的 session 是否属于当前客户端，返回需要发送的错误响应
+    const verifyBinding = async () => {
+      const boundFingerprint = sessionMetaDataCtx.get()?.fingerprint
+      // 未记录指纹的 session（如开启绑定前创建的）不做校验
+      if (!binding || boundFingerprint === undefined || boundFingerprint === sessionFingerprintCtx.get()) return null
+      
+      const action = binding.onMismatch ?? 'reject'
+      await runHook('onFingerprintMismatch', { ...hookContext(), action })
+      if (action === 'report') return null
+      if (action === 'regenerate') {
+        try {
+          const regenerateResult = await sessionUserDataCtx.regenerate()
+          return regenerateResult ? null : handleError('STORE_CREATE_FAILED', hookContext())
+        } catch (error) {
+          if (!(error instanceof SessionLimitExceededError)) throw error
+          return handleError('SESSION_LIMIT_EXCEEDED', { ...hookContext(), message: error.message })
+        }
+      }
+      if (action === 'reauthenticate') {
+        await sessionUserDataCtx.destroy()
+        // 恢复默认数据，与 session 不存在时一致（lazy 模式下处理函数读取的是默认数据）
+        sessionUserDataCtx.set(defaultUserData)
+        migrated = false
+        return config.autoCreateOnMissing ? replaceAuth() : null
+      }
+      return handleError('FINGERPRINT_MISMATCH', hookContext())
+    }
+    
+    
     // 如果userCredentials不存在
     if (!unverifiedUserCredentials) {
       // 根据需求判断是否创建，如Session需要创建，而JWT不需要创建
@@ -155,7 +664,7 @@ export const createFarrowSession = <
       sessionHeaderCtx.set([...sessionHeaderCtx.get(), sessionHeader])
       // 如果需要创建，创建新的userCredentials
       if (config.autoCreateOnMissing) {
-        const errorResponse = await createNewAuth()
+        const errorResponse = await replaceAuth()
         if (errorResponse) return errorResponse // 如果创建失败，返回错误响应
       }
     } else {
@@ -163,50 +672,129 @@ export const createFarrowSession = <
       // 如果userCredentials存在,则验证userCredentials
       const getUserDataResult = await sessionStore.get(unverifiedUserCredentials)
       
-      // 如果结果为undefined，表示内部错误，返回500错误
-      if (getUserDataResult === undefined) return Response.json({ error: 'Internal Server Error' }).status(500)
+      // 如果结果为undefined，表示内部错误，默认返回500错误
+      if (getUserDataResult === undefined) {
+        await runHook('onError', { ...hookContext(), userData: undefined, operation: 'get' })
+        const errorResponse = await handleError('STORE_GET_FAILED', { ...hookContext(), userData: undefined })
+        if (errorResponse) return errorResponse
+      }
       
         // 如果结果为null，表示session无效，创建新的session
-      if (getUserDataResult === null) {
-        const errorResponse = await createNewAuth()
+      else if (getUserDataResult === null) {
+        await runHook('onInvalid', { ...hookContext(), userData: undefined })
+        const errorResponse = await replaceAuth()
         if (errorResponse) return errorResponse
 
-      } else {
+      } else if (!schema) {
         // 如果结果存在，代表userCredrential有效,存在userData设置sessionUserData
         const sessionUserData = getUserDataResult
         sessionUserDataCtx.set(sessionUserData)
+        // Store 按版本升级过的数据需要写回
+        migrated = sessionMigratedCtx.get()
+        loaded = true
+        await runHook('onLoad', hookContext())
+      } else {
+        // 配置了 schema 时，校验通过才能使用读取到的 userData
+        let validationResult = validateSessionData(schema, getUserDataResult)
+        migrated = sessionMigratedCtx.get()
+        // 校验失败时尝试迁移旧数据
+        if (!validationResult.isOk && typeof onSchemaMismatch === 'function') {
+          const migratedData = await onSchemaMismatch(getUserDataResult, validationResult.value.message)
+          validationResult = validateSessionData(schema, migratedData)
+          migrated = true
+        }
+        
+        if (validationResult.isOk) {
+          sessionUserDataCtx.set(validationResult.value)
+          loaded = true
+          await runHook('onLoad', hookContext())
+        } else if (onSchemaMismatch === 'reject') {
+          await runHook('onInvalid', { ...hookContext(), userData: undefined })
+          // destroy 会清空 sessionMetaDataCtx，提前记录错误处理的参数
+          const errorContext = { ...hookContext(), userData: undefined, message: validationResult.value.message }
+          // 销毁无法使用的 session 并清除凭证，避免后续请求一直返回 400
+          await sessionStore.destroy()
+          const sessionHeader = await sessionParser.remove()
+          sessionHeaderCtx.set([...sessionHeaderCtx.get(), sessionHeader])
+          const errorResponse = await handleError('INVALID_SESSION_DATA', errorContext)
+          if (errorResponse) return Response.merge(...sessionHeaderCtx.get()).merge(errorResponse)
+        } else {
+          // 丢弃无法使用的旧数据，创建新的session
+          await runHook('onInvalid', { ...hookContext(), userData: undefined })
+          const errorResponse = await replaceAuth()
+          if (errorResponse) return errorResponse
+          migrated = false
+        }
       }
     }
     
-    // 初始数据加载完成后，重置修改状态为 false
-    modifiedStateCtx.set(false)
+    if (loaded) {
+      const errorResponse = await verifyBinding()
+      if (errorResponse) return errorResponse
+    }
+    
+    // 初始数据加载完成后，重置修改状态为 false；迁移后的数据需要标记为已修改，以便 autoSave 写回
+    modifiedStateCtx.set(migrated)
     
     const response = await next()
     
-    // 如果自动保存
-    if (autoSave) {
+    // 如果自动保存，降级为匿名 session 时跳过
+    if (autoSave && !degraded) {
       const sessionUserData = sessionUserDataCtx.get()
+      const lazyCreation = lazyCreationCtx.get()
+      const sessionMetaBeforeSave = sessionMetaDataCtx.get()
       
+      // lazy 模式下数据被修改后才创建 session，create 会同时保存数据并设置凭证
+      if (lazyCreation) {
+        if (sessionUserData !== undefined && sessionUserDataCtx.isModified) {
+          const errorResponse = await createNewAuth(sessionUserData)
+          if (errorResponse) return errorResponse
+        }
+      }
       // 只在数据存在且被修改时才保存
-      if (sessionUserData !== undefined && sessionUserDataCtx.isModified) {
+      else if (sessionUserData !== undefined && sessionUserDataCtx.isModified) {
         const setResult = await sessionStore.set(sessionUserData)
-        if (setResult === undefined) return Response.json({ error: 'Internal Server Error' }).status(500)
-        if (setResult === false) return Response.json({ error: 'SessionStore Set Failed' }).status(401)
+        if (setResult === undefined) {
+          await runHook('onError', { ...hookContext(), operation: 'set' })
+          const errorResponse = await handleError('STORE_SET_FAILED', hookContext())
+          if (errorResponse) return errorResponse
+        } else if (setResult === false) {
+          const errorResponse = await handleError('STORE_SET_REJECTED', hookContext())
+          if (errorResponse) return errorResponse
+        } else {
+          await runHook('onSave', hookContext())
+        }
       }
       // 如果数据没被修改但需要更新过期时间（rolling/renew 模式）
       else if (sessionUserData !== undefined && !sessionUserDataCtx.isModified) {
         // 优先使用 touch 方法（如果存在）
         if (sessionStore.touch) {
           const touchResult = await sessionStore.touch()
-          if (touchResult === undefined) return Response.json({ error: 'Internal Server Error' }).status(500)
-          if (touchResult === false) return Response.json({ error: 'Session Touch Failed' }).status(401)
+          if (touchResult === undefined) {
+            await runHook('onError', { ...hookContext(), operation: 'touch' })
+            const errorResponse = await handleError('TOUCH_FAILED', hookContext())
+            if (errorResponse) return errorResponse
+          } else if (touchResult === false) {
+            const errorResponse = await handleError('TOUCH_REJECTED', hookContext())
+            if (errorResponse) return errorResponse
+          }
         } else {
           // 如果没有 touch 方法，退回到使用 set
           const setResult = await sessionStore.set(sessionUserData)
-          if (setResult === undefined) return Response.json({ error: 'Internal Server Error' }).status(500)
-          if (setResult === false) return Response.json({ error: 'SessionStore Set Failed' }).status(401)
+          if (setResult === undefined) {
+            await runHook('onError', { ...hookContext(), operation: 'set' })
+            const errorResponse = await handleError('STORE_SET_FAILED', hookContext())
+            if (errorResponse) return errorResponse
+          } else if (setResult === false) {
+            const errorResponse = await handleError('STORE_SET_REJECTED', hookContext())
+            if (errorResponse) return errorResponse
+          }
         }
       }
+      // 保存成功后，凭证可能已更新（如续期后的过期时间、重新签发的JWT），需要重新设置
+      if (sessionUserData !== undefined && !degraded && !lazyCreation) {
+        await reissueChangedCredential(sessionMetaBeforeSave)
+      }
     }
     const sessionHeaders = sessionHeaderCtx.get()
     return Response.merge(...sessionHeaders).merge(response)
@@ -218,13 +806,102 @@ export const createFarrowSession = <
       const userData = sessionUserDataCtx.get()
       //如果userData不存在，返回false
       if (userData === undefined) return false
-      //创建新的信息
-      const createResult = await sessionStore.create(userData)
+      const replacedSession: ReplacedSession = {
+        sessionMeta: sessionMetaDataCtx.get(),
+        userData,
+        sessionHeaders: sessionHeaderCtx.get(),
+      }
+      //检查用户的 session 数量，SessionStore 发生内部错误时返回undefined
+      const sessionLimitPlan = await planSessionLimit(userData)
+      if (sessionLimitPlan === undefined) return undefined
+      
+      // 与 login 一致：创建新的信息并淘汰超出数量的session，任何一步失败都回滚到旧的 session，之后才下发新的凭证
+      let created = false
+      let createResult: TUserData | undefined
+      let evicted: boolean | undefined = false
+      try {
+        createResult = await sessionStore.create(userData)
+        if (createResult !== undefined) {
+          created = true
+          evicted = await evictSessions(sessionLimitPlan)
+        }
+      } catch (error) {
+        await restoreReplacedSession(replacedSession, created)
+        throw error
+      }
       //如果创建失败，返回undefined
-      if (createResult===undefined ) return undefined
+      if (createResult === undefined) {
+        await restoreReplacedSession(replacedSession, created)
+        await runHook('onError', { ...hookContext(), operation: 'create' })
+        return undefined
+      }
+      if (!evicted) {
+        await restoreReplacedSession(replacedSession, created)
+        return undefined
+      }
+      
       // 如果创建成功，设置sessionHeader
       const sessionHeader = await sessionParser.set()
       sessionHeaderCtx.set([...sessionHeaderCtx.get(), sessionHeader])
+      lazyCreationCtx.set(false)
+      sessionRegeneratedCtx.set(true)
+      await runHook('onRegenerate', { ...hookContext(), previousSessionId: replacedSession.sessionMeta?.sessionId })
+      return true
+    }
+    
+    sessionUserDataCtx.login = async (userData, options = {}) => {
+      const anonymousData = sessionUserDataCtx.get()
+      // 登录前的匿名 session，失败时回滚
+      const replacedSession: ReplacedSession = {
+        sessionMeta: sessionMetaDataCtx.get(),
+        userData: anonymousData,
+        sessionHeaders: sessionHeaderCtx.get(),
+      }
+      const loginData = options.merge ? await options.merge(anonymousData, userData) : userData
+      // 只计算需要淘汰的 session，新的 session 创建成功后再淘汰
+      const sessionLimitPlan = await planSessionLimit(loginData)
+      if (sessionLimitPlan === undefined) return undefined
+      
+      let created = false
+      let createResult: TUserData | undefined
+      let evicted: boolean | undefined = false
+      try {
+        // 创建新的session，sessionId 随之更换；Store 抛出的异常（如 SessionDataTooLargeError）同样需要回滚
+        createResult = await sessionStore.create(loginData)
+        if (createResult !== undefined) {
+          created = true
+          evicted = await evictSessions(sessionLimitPlan)
+        }
+        // 所有可能失败的步骤完成后才触发 onLogin，onLogin 决定登录是否回滚，不受 awaitHooks 影响，始终等待执行完成
+        if (evicted) {
+          await hooks.onLogin?.({
+            sessionId: sessionMetaDataCtx.get()?.sessionId,
+            request: useRequestInfo(),
+            userData: createResult!,
+            previousSessionId: replacedSession.sessionMeta?.sessionId,
+            anonymousData,
+          })
+        }
+      } catch (error) {
+        await restoreReplacedSession(replacedSession, created)
+        throw error
+      }
+      
+      if (createResult === undefined) {
+        await restoreReplacedSession(replacedSession, created)
+        await runHook('onError', { ...hookContext(), operation: 'create' })
+        return undefined
+      }
+      if (!evicted) {
+        await restoreReplacedSession(replacedSession, created)
+        return undefined
+      }
+      
+      sessionUserDataCtx.set(createResult)
+      lazyCreationCtx.set(false)
+      sessionRegeneratedCtx.set(true)
+      const sessionHeader = await sessionParser.set()
+      sessionHeaderCtx.set([...sessionHeaderCtx.get(), sessionHeader])
       return true
     }
     
@@ -232,8 +909,13 @@ export const createFarrowSession = <
       const sessionUserData = sessionUserDataCtx.get()
       // 如果sessionUserData不存在，返回false
       if (sessionUserData === undefined) return false
+      // 销毁后 sessionMetaDataCtx 会被清空，提前记录 hook 的参数
+      const destroyedContext = hookContext()
       // 如果sessionUserData存在，调用Store销毁
       const destroyResult = await sessionStore.destroy()
+      if (destroyResult === undefined) {
+        await runHook('onError', { ...destroyedContext, operation: 'destroy' })
+      }
       // 如果销毁失败，返回false或者undefined，直接返回false或者undefined
       if (!destroyResult) return destroyResult
       // 如果销毁成功，设置sessionUserDataCtx为undefined
@@ -241,6 +923,25 @@ export const createFarrowSession = <
       // 如果销毁成功，设置相应header
       const sessionHeader = await sessionParser.remove()
       sessionHeaderCtx.set([...sessionHeaderCtx.get(), sessionHeader])
+      await runHook('onDestroy', destroyedContext)
+      return true
+    }
+
+    sessionUserDataCtx.destroyOthers = async () => {
+      if (!sessionStore.userIdOf || !sessionStore.destroyByUser) {
+        throw new Error('destroyOthers requires a SessionStore that implements userIdOf and destroyByUser')
+      }
+      const sessionUserData = sessionUserDataCtx.get()
+      // 如果sessionUserData不存在或不属于任何用户，返回false
+      if (sessionUserData === undefined) return false
+      const userId = sessionStore.userIdOf(sessionUserData)
+      if (userId === undefined) return false
+      const sessionId = sessionMetaDataCtx.get()?.sessionId
+      const destroyResult = await sessionStore.destroyByUser(userId, { except: sessionId })
+      if (destroyResult === undefined) {
+        await runHook('onError', { ...hookContext(), operation: 'destroy' })
+        return undefined
+      }
       return true
     }
 
@@ -249,22 +950,44 @@ export const createFarrowSession = <
       // 如果sessionUserData不存在，返回false
       if (sessionUserData === undefined) return false
       
+      // lazy 模式下等待创建的 session，保存时才真正创建
+      if (lazyCreationCtx.get()) {
+        const createResult = await sessionStore.create(sessionUserData)
+        if (createResult === undefined) {
+          await runHook('onError', { ...hookContext(), operation: 'create' })
+          return undefined
+        }
+        lazyCreationCtx.set(false)
+        const sessionHeader = await sessionParser.set()
+        sessionHeaderCtx.set([...sessionHeaderCtx.get(), sessionHeader])
+        await runHook('onCreate', hookContext())
+        return true
+      }
+      
       // 根据修改状态决定调用 set 还是 touch
-      if (sessionUserDataCtx.isModified) {
+      let saveResult: boolean | undefined
+      const modified = sessionUserDataCtx.isModified
+      const sessionMetaBeforeSave = sessionMetaDataCtx.get()
+      if (modified) {
         // 数据被修改，需要完整保存
-        const setResult = await sessionStore.set(sessionUserData)
-        return setResult || false
-      } else {
+        saveResult = await sessionStore.set(sessionUserData)
+      } else if (sessionStore.touch) {
         // 数据未修改，尝试使用 touch 更新过期时间
-        if (sessionStore.touch) {
-          const touchResult = await sessionStore.touch()
-          return touchResult || false
-        } else {
-          // 没有 touch 方法，退回到 set
-          const setResult = await sessionStore.set(sessionUserData)
-          return setResult || false
-        }
+        saveResult = await sessionStore.touch()
+      } else {
+        // 没有 touch 方法，退回到 set
+        saveResult = await sessionStore.set(sessionUserData)
       }
+      if (saveResult === undefined) {
+        await runHook('onError', { ...hookContext(), operation: modified || !sessionStore.touch ? 'set' : 'touch' })
+      }
+      if (!saveResult) return false
+      if (modified) {
+        await runHook('onSave', hookContext())
+      }
+      // 保存成功后，凭证发生变化时重新设置
+      await reissueChangedCredential(sessionMetaBeforeSave)
+      return true
     }
   return middleware
 }
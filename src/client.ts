@@ -0,0 +1,149 @@
+import { createHash } from 'crypto'
+import { RequestInfo, useRequest, useRequestInfo } from 'farrow-http'
+import { createContext } from 'farrow-pipeline'
+
+/**
+ * 创建 session 时记录的客户端信息，由 SessionStore 与 session 一同保存
+ */
+export type SessionClientInfo = {
+  ip?: string
+  userAgent?: string
+  /**
+   * 根据 userAgent 解析出的设备名称，如 'Chrome on macOS'
+   */
+  device?: string
+  /**
+   * 开启 session 绑定时记录的客户端指纹（哈希值）
+   */
+  fingerprint?: string
+}
+
+export type ClientInfoOptions = {
+  /**
+   * 是否信任代理设置的 X-Forwarded-For 请求头，默认 false
+   * 仅在应用部署于可信的反向代理之后时开启，否则客户端可以伪造 IP
+   */
+  trustProxy?: boolean
+}
+
+/**
+ * 客户端指纹的来源
+ * - 'user-agent': UserAgent 的哈希
+ * - 'ip-subnet': IP 所在网段的哈希（IPv4 取 /24，IPv6 取 /64），允许同一网络内的 IP 变化
+ * - 函数：根据 RequestInfo 自定义指纹，如组合多个请求头
+ */
+export type SessionFingerprint = 'user-agent' | 'ip-subnet' | ((request: RequestInfo) => string | Promise<string>)
+
+// 当前请求的客户端指纹（请求级隔离），由 createFarrowSession 设置，SessionStore 创建 session 时一同保存
+export const sessionFingerprintCtx = createContext<string | undefined>(undefined)
+
+const browsers: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+]
+
+const systems: Array<[RegExp, string]> = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/CrOS/, 'ChromeOS'],
+  [/Macintosh|Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+]
+
+const findLabel = (userAgent: string, patterns: Array<[RegExp, string]>) => {
+  return patterns.find(([pattern]) => pattern.test(userAgent))?.[1]
+}
+
+/**
+ * 根据 userAgent 生成简短的设备名称，用于安全面板中展示登录设备
+ * 无法识别时返回 undefined
+ */
+export const parseDevice = (userAgent?: string) => {
+  if (!userAgent) return undefined
+  if (/bot|crawler|spider/i.test(userAgent)) return 'Bot'
+
+  const browser = findLabel(userAgent, browsers)
+  const system = findLabel(userAgent, systems)
+  if (browser && system) return `${browser} on ${system}`
+  return browser ?? system
+}
+
+const firstHeaderValue = (value: unknown) => {
+  const header = Array.isArray(value) ? value[0] : value
+  return typeof header === 'string' ? header : undefined
+}
+
+const readClientIp = (options?: ClientInfoOptions) => {
+  const { headers } = useRequestInfo()
+  const forwardedIp = options?.trustProxy ? firstHeaderValue(headers?.['x-forwarded-for'])?.split(',')[0]?.trim() : undefined
+  return forwardedIp || useRequest()?.socket.remoteAddress
+}
+
+// 读取当前请求的客户端信息，需要在请求中调用
+// captureClientInfo 为 false 时只保留客户端指纹
+export const readClientInfo = (options?: ClientInfoOptions & { captureClientInfo?: boolean }): SessionClientInfo | undefined => {
+  const fingerprint = sessionFingerprintCtx.get()
+  if (options?.captureClientInfo === false) {
+    return fingerprint === undefined ? undefined : { fingerprint }
+  }
+
+  const userAgent = firstHeaderValue(useRequestInfo().headers?.['user-agent'])
+  return {
+    ip: readClientIp(options),
+    userAgent,
+    device: parseDevice(userAgent),
+    fingerprint,
+  }
+}
+
+// 从 session 元数据中取出客户端信息，保存 session 时使用
+export const pickClientInfo = (clientInfo: SessionClientInfo): SessionClientInfo | undefined => {
+  const { ip, userAgent, device, fingerprint } = clientInfo
+  if (ip === undefined && userAgent === undefined && device === undefined && fingerprint === undefined) return undefined
+  return { ip, userAgent, device, fingerprint }
+}
+
+// 展开 IPv6 地址中省略的 0，返回 8 组数字
+const expandIpv6 = (ip: string) => {
+  const [head = '', tail] = ip.split('::')
+  const headGroups = head.split(':').filter(Boolean)
+  const tailGroups = tail === undefined ? [] : tail.split(':').filter(Boolean)
+  const zeros = Array<string>(Math.max(8 - headGroups.length - tailGroups.length, 0)).fill('0')
+  return [...headGroups, ...zeros, ...tailGroups].map((group) => parseInt(group, 16) || 0)
+}
+
+/**
+ * 返回 IP 所在的网段，IPv4 取 /24，IPv6 取 /64
+ */
+export const ipSubnet = (ip: string) => {
+  const address = ip.split('%')[0]!
+  const ipv4 = address.match(/^(?:::ffff:)?(\d+\.\d+\.\d+)\.\d+$/i)
+  if (ipv4) return `${ipv4[1]}.0/24`
+  const groups = expandIpv6(address).slice(0, 4)
+  return `${groups.map((group) => group.toString(16)).join(':')}::/64`
+}
+
+const hashFingerprint = (value: string) => createHash('sha256').update(value).digest('base64url')
+
+/**
+ * 计算当前请求的客户端指纹，保存的是哈希值，不会在 session 中留下原始的 IP 或 UserAgent
+ */
+export const createFingerprint = async (
+  request: RequestInfo,
+  fingerprint: SessionFingerprint,
+  options?: ClientInfoOptions,
+) => {
+  if (fingerprint === 'user-agent') {
+    return hashFingerprint(firstHeaderValue(request.headers?.['user-agent']) ?? '')
+  }
+  if (fingerprint === 'ip-subnet') {
+    const ip = readClientIp(options)
+    return hashFingerprint(ip ? ipSubnet(ip) : '')
+  }
+  return hashFingerprint(await fingerprint(request))
+}
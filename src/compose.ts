@@ -0,0 +1,37 @@
+import { createContext } from 'farrow-pipeline'
+import { SessionParser } from './auth'
+
+/**
+ * composeParsers: 按顺序尝试多个 SessionParser，使用第一个解析出凭证的 parser
+ * 并在当前请求中记住它，set/remove 会交给同一个 parser，保证响应使用客户端实际使用的传输方式
+ * 当没有任何 parser 解析出凭证时（如新的匿名会话），set/remove 使用第一个 parser
+ */
+export const composeParsers = <Credit>(parsers: SessionParser<Credit>[]): SessionParser<Credit> => {
+  if (parsers.length === 0) {
+    throw new Error('composeParsers requires at least one SessionParser')
+  }
+
+  // 记录当前请求匹配的 parser（请求级隔离）
+  const matchedParserCtx = createContext<SessionParser<Credit> | undefined>(undefined)
+  const currentParser = () => matchedParserCtx.get() ?? parsers[0]!
+
+  return {
+    async get(requestInfo) {
+      for (const parser of parsers) {
+        const credentials = await parser.get(requestInfo)
+        if (credentials !== null) {
+          matchedParserCtx.set(parser)
+          return credentials
+        }
+      }
+      matchedParserCtx.set(undefined)
+      return null
+    },
+    set() {
+      return currentParser().set()
+    },
+    remove() {
+      return currentParser().remove()
+    },
+  }
+}
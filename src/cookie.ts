@@ -1,10 +1,15 @@
-import { createCipheriv, createDecipheriv, createHash } from 'crypto'
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { brotliCompressSync, brotliDecompressSync, deflateRawSync, inflateRawSync } from 'zlib'
 import type { SetOption } from 'cookies'
 import { sessionHeaderCtx, SessionStore, SessionParser } from './auth'
 import { Response, useRequestInfo, RequestInfo } from 'farrow-http'
 import { ulid } from 'ulid'
-import { oneMinute } from './utils'
+import { nextExpiresTime, oneMinute } from './utils'
 import { createContext } from 'farrow-pipeline'
+import { SessionMigrations, useMigratedSessionData, sessionVersionOf } from './migration'
+import { SessionSerializer, jsonSerializer } from './serializer'
+import { SessionClientInfo, pickClientInfo, readClientInfo } from './client'
+import { sessionMetaDataCtx } from './meta'
 export type CookieOptions = Omit<SetOption, 'expires' | 'secureProxy' | 'signed' | 'secure'>
 
 // 默认cookie选项
@@ -14,21 +19,28 @@ const defaultCookieOptions = {
   overwrite: true,
 } satisfies CookieOptions
 
+// sessionId 编解码器，供 cookieSessionParser 等 parser 使用
+export type SessionIdCodec = {
+  encode: (plainSessionId: string) => string
+  decode: (encodedSessionId: string) => string
+}
+
 // cookieSessionParser配置选项
 export type CookieSessionParserOptions = {
   sessionIdKey?: string
-  customCodec?: {
-    encode: (plainSessionId: string) => string
-    decode: (encodedSessionId: string) => string
+  customCodec?: SessionIdCodec
+  /**
+   * 为 sessionId 附加 HMAC-SHA256 签名，被篡改的 cookie 会被视为不存在
+   * 始终使用第一个密钥签名，校验时依次尝试所有密钥，便于密钥轮换
+   */
+  signed?: {
+    secrets: string[]
   }
   cookieOptions?: CookieOptions
 }
 
-// Context for session metadata communication between parser and store
-export const sessionMetaDataCtx = createContext<{
-  sessionId: string
-  expiresTime: number
-} | undefined>(undefined)
+// 使用 HMAC-SHA256 对 cookie 值进行签名
+const signValue = (value: string, secret: string) => createHmac('sha256', secret).update(value).digest('base64url')
 
 export const cookieSessionParser = (
   cookieSessionOptions?: CookieSessionParserOptions,
@@ -38,10 +50,32 @@ export const cookieSessionParser = (
     cookieOptions: defaultCookieOptions,
     ...cookieSessionOptions,
   }
+
+  if (options.signed && options.signed.secrets.length === 0) {
+    throw new Error('At least one secret is required for signed cookieSessionParser.')
+  }
+
+  // 校验签名，成功时返回去掉签名的值，失败时返回 null
+  const unsign = (signedValue: string, secrets: string[]) => {
+    const separatorIndex = signedValue.lastIndexOf('.')
+    if (separatorIndex <= 0) return null
+    const value = signedValue.slice(0, separatorIndex)
+    const signature = Buffer.from(signedValue.slice(separatorIndex + 1))
+    const isValid = secrets.some((secret) => {
+      const expected = Buffer.from(signValue(value, secret))
+      return expected.length === signature.length && timingSafeEqual(expected, signature)
+    })
+    return isValid ? value : null
+  }
   
   return {
     async get(requestInfo) {
-      const encodedSessionId = requestInfo.cookies?.[options.sessionIdKey]
+      const cookieValue = requestInfo.cookies?.[options.sessionIdKey]
+      if (!cookieValue) {
+        return null
+      }
+
+      const encodedSessionId = options.signed ? unsign(cookieValue, options.signed.secrets) : cookieValue
       if (!encodedSessionId) {
         return null
       }
@@ -66,6 +100,11 @@ export const cookieSessionParser = (
       const encodedSessionId = options.customCodec
         ? options.customCodec.encode(sessionMeta.sessionId)
         : Buffer.from(sessionMeta.sessionId).toString('base64')
+
+      // 始终使用第一个密钥签名
+      const cookieValue = options.signed
+        ? `${encodedSessionId}.${signValue(encodedSessionId, options.signed.secrets[0]!)}`
+        : encodedSessionId
       
       // Set cookie with proper expiration time
       const cookieOptions = {
@@ -73,7 +112,7 @@ export const cookieSessionParser = (
         expires: new Date(sessionMeta.expiresTime),
       } satisfies SetOption
       
-      return Response.cookie(options.sessionIdKey, encodedSessionId, cookieOptions)
+      return Response.cookie(options.sessionIdKey, cookieValue, cookieOptions)
     },
     
     async remove() {
@@ -90,11 +129,17 @@ export const cookieSessionParser = (
 
 export type CookieSessionStoreOptions<UserData> = {
   /**
-   * 用于加密的密钥，必须提供
+   * 用于加密的密钥，与 secrets 至少提供一个
    * 建议使用环境变量存储
    * 例如：process.env.SESSION_SECRET
    */
-  secret: string
+  secret?: string
+  /**
+   * 用于密钥轮换的密钥列表，始终使用第一个密钥加密，解密时依次尝试所有密钥
+   * 使用旧密钥加密的 cookie 会被自动重新加密
+   * 同时提供 secret 时，secret 会被追加到列表末尾
+   */
+  secrets?: string[]
   sessionStoreKey?: string
   dataCreator?: (request: RequestInfo, sessionData?: UserData) => UserData
   /**
@@ -114,10 +159,86 @@ export type CookieSessionStoreOptions<UserData> = {
    * 仅在 renew 为 true 时生效
    */
   renewBefore?: number
+  /**
+   * absoluteMaxAge: session 自创建起的最长有效时间（毫秒）
+   * 超出后无论 rolling/renew 如何续期，session 都会失效
+   */
+  absoluteMaxAge?: number
+  /**
+   * idleTimeout: 超过该时间（毫秒）没有活动时 session 失效，与 cookie 的过期时间相互独立
+   */
+  idleTimeout?: number
+  /**
+   * 单个 cookie 值的最大长度，超出时自动拆分为 `${sessionStoreKey}.0..N` 多个 cookie
+   * 默认 3800，为 cookie 名称和属性预留空间，避免超出浏览器 4KB 的限制
+   */
+  chunkSize?: number
+  /**
+   * 加密后数据的最大总长度，超出时抛出 SessionDataTooLargeError 而不是静默丢失数据
+   * 默认 16000
+   */
+  maxSize?: number
+  /**
+   * 加密前压缩会话数据，默认不压缩
+   * 使用的压缩算法会记录在密文中，开启或切换算法后旧的 cookie 依然可以读取
+   */
+  compression?: CookieCompression
+  /**
+   * 可选：userData 结构变更时的升级函数列表，版本号与数据一同保存
+   */
+  migrations?: SessionMigrations
+  /**
+   * 序列化方式，默认 jsonSerializer
+   * 需要保存 Date、Map、Set、BigInt 等类型时使用 richSerializer
+   */
+  serializer?: SessionSerializer
+  /**
+   * 创建 session 时是否记录客户端的 IP、UserAgent 和设备，默认 true
+   */
+  captureClientInfo?: boolean
+  /**
+   * 记录 IP 时是否信任 X-Forwarded-For 请求头，默认 false
+   */
+  trustProxy?: boolean
   cookieOptions?: CookieOptions
 }
 
-// 将sessionId转换为iv
+export type CookieCompression = 'deflate' | 'brotli'
+
+const compressors: Record<CookieCompression, { compress: (data: Buffer) => Buffer; decompress: (data: Buffer) => Buffer }> = {
+  deflate: { compress: deflateRawSync, decompress: inflateRawSync },
+  brotli: { compress: brotliCompressSync, decompress: brotliDecompressSync },
+}
+
+// 加密后的 session 数据超出 maxSize 时抛出
+export class SessionDataTooLargeError extends Error {
+  constructor(
+    public readonly size: number,
+    public readonly maxSize: number,
+  ) {
+    super(
+      `Session data is too large to be stored in cookies: ${size} characters after encryption, limit is ${maxSize}. ` +
+        'Store less data in the session or use a server-side session store.',
+    )
+    this.name = 'SessionDataTooLargeError'
+  }
+}
+
+// 加密前的数据格式
+type StoredSessionData = {
+  _data: unknown
+  _expires: number
+  _created?: number
+  _lastSeen?: number
+  _version?: number
+  _client?: SessionClientInfo
+}
+
+// 加密数据格式的版本号，v2 在 v1 的基础上记录了压缩算法
+const envelopeVersion = 'v1'
+const compressedEnvelopeVersion = 'v2'
+
+// 将sessionId转换为iv，仅用于解密旧版本 aes-256-cbc 格式的数据
 export function idToIv(sessionId: string) {
   return createHash('sha256').update(sessionId).digest().slice(0, 16)
 }
@@ -125,8 +246,11 @@ export function idToIv(sessionId: string) {
 export const cookieSessionStore = <UserData>(
   cookieSessionStoreOptions: CookieSessionStoreOptions<UserData>,
 ): SessionStore<UserData, string> => {
+  const secrets = [...(cookieSessionStoreOptions.secrets ?? []), cookieSessionStoreOptions.secret].filter(
+    (secret): secret is string => !!secret,
+  )
   // secret 是必需的
-  if (!cookieSessionStoreOptions.secret) {
+  if (secrets.length === 0) {
     throw new Error('Secret is required for cookieSessionStore. Please provide a secret key for encryption.')
   }
   
@@ -136,6 +260,10 @@ export const cookieSessionStore = <UserData>(
     rolling: false,
     renew: false,
     renewBefore: 10 * oneMinute * 1000, // 默认10分钟
+    chunkSize: 3800,
+    maxSize: 16000,
+    serializer: jsonSerializer,
+    captureClientInfo: true,
     ...cookieSessionStoreOptions,
   }
   
@@ -143,40 +271,196 @@ export const cookieSessionStore = <UserData>(
   if (options.rolling && options.renew) {
     throw new Error('Cannot use both rolling and renew modes at the same time')
   }
+  if (options.chunkSize <= 0) {
+    throw new Error('chunkSize must be a positive number')
+  }
+  if (options.compression && !Object.prototype.hasOwnProperty.call(compressors, options.compression)) {
+    throw new Error(`Unsupported compression: ${options.compression}`)
+  }
   
-  // 使用 secret 生成加密密钥
-  const key = createHash('sha256').update(options.secret).digest()
+  // 使用 secret 生成加密密钥，keyId 用于在密文中标识所使用的密钥
+  const keys = secrets.map((secret) => {
+    const key = createHash('sha256').update(secret).digest()
+    const keyId = createHash('sha256').update(key).digest('base64url').slice(0, 8)
+    return { key, keyId }
+  })
+  const currentKey = keys[0]!
   
-  //创建加密器
-  const createCipher = (sessionId: string) => {
+  // 加密：使用 aes-256-gcm，每次随机生成 iv，sessionId 作为附加认证数据
+  // 密文格式：v1.<keyId>.<iv>.<authTag>.<ciphertext>
+  // 开启压缩时：v2.<keyId>.<compression>.<iv>.<authTag>.<ciphertext>
+  const encrypt = (sessionId: string, dataToStore: unknown) => {
     try {
-      //使用aes-256-cbc加密，key为sessionStoreKey的sha256，iv为sessionId的sha256的前16位
-      const cipher = createCipheriv('aes-256-cbc', key, idToIv(sessionId))
-      return cipher
+      const plaintext = Buffer.from(options.serializer.serialize(dataToStore), 'utf8')
+      const compression = options.compression
+      const iv = randomBytes(12)
+      const cipher = createCipheriv('aes-256-gcm', currentKey.key, iv)
+      cipher.setAAD(Buffer.from(sessionId))
+      const ciphertext = Buffer.concat([
+        cipher.update(compression ? compressors[compression].compress(plaintext) : plaintext),
+        cipher.final(),
+      ])
+      const authTag = cipher.getAuthTag()
+      const header = compression
+        ? [compressedEnvelopeVersion, currentKey.keyId, compression]
+        : [envelopeVersion, currentKey.keyId]
+      return [
+        ...header,
+        iv.toString('base64url'),
+        authTag.toString('base64url'),
+        ciphertext.toString('base64url'),
+      ].join('.')
     } catch (err) {
       const error = err as Error
-      throw new Error(`Failed to create cipher: ${error.message}`)
+      throw new Error(`Failed to encrypt session data: ${error.message}`)
     }
   }
   
-  const createDecipher = (sessionId: string) => {
-    const decipher = createDecipheriv('aes-256-cbc', key, idToIv(sessionId))
-    return decipher
+  // 兼容旧版本使用 aes-256-cbc 加密的 cookie，iv 为 sessionId 的 sha256 的前16位
+  const decryptLegacy = (sessionId: string, encrypted: string) => {
+    for (const { key } of keys) {
+      try {
+        const decipher = createDecipheriv('aes-256-cbc', key, idToIv(sessionId))
+        let decrypted = decipher.update(encrypted, 'base64', 'utf8')
+        decrypted += decipher.final('utf8')
+        return JSON.parse(decrypted) as StoredSessionData
+      } catch (error) {
+        // 尝试下一个密钥
+      }
+    }
+    throw new Error('Failed to decrypt legacy session data')
+  }
+  
+  // 解密：返回解密后的数据，以及是否需要使用当前密钥重新加密
+  const decrypt = (sessionId: string, encrypted: string) => {
+    const segments = encrypted.split('.')
+    if (segments[0] !== envelopeVersion && segments[0] !== compressedEnvelopeVersion) {
+      return { decryptedData: decryptLegacy(sessionId, encrypted), needsReencryption: true }
+    }
+    
+    const compressed = segments[0] === compressedEnvelopeVersion
+    const [keyId, ...rest] = segments.slice(1)
+    const compression = compressed ? (rest.shift() as CookieCompression) : undefined
+    const [iv, authTag, ciphertext] = rest
+    const matchedKey = keys.find((key) => key.keyId === keyId)
+    if (segments.length !== (compressed ? 6 : 5) || !matchedKey) {
+      throw new Error('Unknown session data envelope')
+    }
+    if (compression && !Object.prototype.hasOwnProperty.call(compressors, compression)) {
+      throw new Error(`Unknown session data compression: ${compression}`)
+    }
+    
+    const decipher = createDecipheriv('aes-256-gcm', matchedKey.key, Buffer.from(iv!, 'base64url'))
+    decipher.setAAD(Buffer.from(sessionId))
+    decipher.setAuthTag(Buffer.from(authTag!, 'base64url'))
+    const decrypted = Buffer.concat([decipher.update(Buffer.from(ciphertext!, 'base64url')), decipher.final()])
+    const plaintext = compression ? compressors[compression].decompress(decrypted) : decrypted
+    return {
+      decryptedData: options.serializer.deserialize(plaintext.toString('utf8')) as StoredSessionData,
+      needsReencryption: matchedKey !== currentKey,
+    }
   }
   
   const maxAge = options.cookieOptions.maxAge || (30 * oneMinute * 1000)
+  const expirationOptions = { ...options, maxAge }
+  
+  const chunkKey = (index: number) => `${options.sessionStoreKey}.${index}`
+  const expiredCookie = (key: string) =>
+    Response.cookie(key, '', {
+      ...options.cookieOptions,
+      expires: new Date(0),
+      maxAge: 0,
+    })
+  
+  // 请求中携带的分块 cookie 数量
+  const countRequestChunks = () => {
+    const cookies = useRequestInfo().cookies
+    let count = 0
+    while (cookies?.[chunkKey(count)] !== undefined) {
+      count++
+    }
+    return count
+  }
+  
+  // 本次响应中已写入的最大分块数量，同一请求内多次写入时用于清除多余的分块
+  const writtenChunkCountCtx = createContext(0)
+  const knownChunkCount = () => Math.max(countRequestChunks(), writtenChunkCountCtx.get())
+  
+  // 读取加密数据：优先读取单个 cookie，否则按序号拼接分块 cookie
+  const readDataCookies = () => {
+    const cookies = useRequestInfo().cookies
+    const single = cookies?.[options.sessionStoreKey]
+    if (single !== undefined) {
+      return single
+    }
+    const chunkCount = countRequestChunks()
+    if (chunkCount === 0) {
+      return undefined
+    }
+    return Array.from({ length: chunkCount }, (_, index) => cookies![chunkKey(index)]).join('')
+  }
+  
+  // 写入加密数据：超出 chunkSize 时拆分为多个 cookie，并清除多余的旧分块
+  const writeDataCookies = (encrypted: string) => {
+    if (encrypted.length > options.maxSize) {
+      throw new SessionDataTooLargeError(encrypted.length, options.maxSize)
+    }
+    
+    const cookieOptions = {
+      ...options.cookieOptions,
+      maxAge: maxAge,
+    }
+    const previousChunkCount = knownChunkCount()
+    const responses: Response[] = []
+    
+    if (encrypted.length <= options.chunkSize) {
+      responses.push(Response.cookie(options.sessionStoreKey, encrypted, cookieOptions))
+      for (let index = 0; index < previousChunkCount; index++) {
+        responses.push(expiredCookie(chunkKey(index)))
+      }
+    } else {
+      const chunkCount = Math.ceil(encrypted.length / options.chunkSize)
+      for (let index = 0; index < chunkCount; index++) {
+        const chunk = encrypted.slice(index * options.chunkSize, (index + 1) * options.chunkSize)
+        responses.push(Response.cookie(chunkKey(index), chunk, cookieOptions))
+      }
+      for (let index = chunkCount; index < previousChunkCount; index++) {
+        responses.push(expiredCookie(chunkKey(index)))
+      }
+      // 单个 cookie 优先于分块被读取，需要一并清除
+      responses.push(expiredCookie(options.sessionStoreKey))
+      writtenChunkCountCtx.set(Math.max(chunkCount, previousChunkCount))
+    }
+    
+    sessionHeaderCtx.set([...sessionHeaderCtx.get(), ...responses])
+  }
+  
+  // 清除加密数据，包括请求中携带以及本次已写入的所有分块
+  const clearDataCookies = () => {
+    const responses = [expiredCookie(options.sessionStoreKey)]
+    const previousChunkCount = knownChunkCount()
+    for (let index = 0; index < previousChunkCount; index++) {
+      responses.push(expiredCookie(chunkKey(index)))
+    }
+    sessionHeaderCtx.set([...sessionHeaderCtx.get(), ...responses])
+  }
+  
   return {
-    autoCreateOnMissing: true,
     async create(userData?: UserData) {
       // Generate new sessionId
       const sessionId = ulid()
       
-      const expiresTime = Date.now() + maxAge
+      const createdAt = Date.now()
+      const expiresTime = nextExpiresTime(expirationOptions, createdAt + maxAge, createdAt)
+      const clientInfo = readClientInfo({ trustProxy: options.trustProxy, captureClientInfo: options.captureClientInfo })
       
       // Set session metadata in context for parser to use
       const sessionMeta = {
+        ...clientInfo,
         sessionId,
-        expiresTime
+        expiresTime,
+        createdAt,
+        lastSeenAt: createdAt
       }
       sessionMetaDataCtx.set(sessionMeta)
       
@@ -186,89 +470,80 @@ export const cookieSessionStore = <UserData>(
         : (userData || ({} as UserData))
       
       // Encrypt and store the initial data
-      const cipher = createCipher(sessionId)
-      const dataToStore = { _data: initialData, _expires: expiresTime }
-      
-      let encrypted = cipher.update(
-        JSON.stringify(dataToStore),
-        'utf8',
-        'base64',
-      )
-      encrypted += cipher.final('base64')
-      
-      const cookieOptions = {
-        ...options.cookieOptions,
-        maxAge: maxAge,
+      const dataToStore = {
+        _data: initialData,
+        _expires: expiresTime,
+        _created: createdAt,
+        _lastSeen: createdAt,
+        ...sessionVersionOf(options.migrations),
+        _client: clientInfo,
       }
-
-      sessionHeaderCtx.set([
-        ...sessionHeaderCtx.get(),
-        Response.cookie(options.sessionStoreKey, encrypted, cookieOptions),
-      ])
+      writeDataCookies(encrypt(sessionId, dataToStore))
       
       return initialData
     },
     async get(sessionId: string) {
-      const requestInfo = useRequestInfo()
-      const sessionData = requestInfo.cookies?.[options.sessionStoreKey]
+      const sessionData = readDataCookies()
       
       if (sessionData === undefined) {
         return null
       }
       
-      let decryptedData: any
+      let decryptResult: ReturnType<typeof decrypt>
       
       // 1. 尝试解密
       try {
-        const decipher = createDecipher(sessionId)
-        let decrypted = decipher.update(sessionData, 'base64', 'utf8')
-        decrypted += decipher.final('utf8')
-        decryptedData = JSON.parse(decrypted)
+        decryptResult = decrypt(sessionId, sessionData)
       } catch (error) {
-        // 解密失败：可能是 sessionId 不匹配或数据损坏
+        // 解密失败：可能是 sessionId 不匹配、密钥已移除或数据被篡改
         // 清除无效的 cookie
-        authHeaderCtx.set([
-          ...authHeaderCtx.get(),
-          Response.cookie(options.sessionStoreKey, '', { 
-            ...options.cookieOptions, 
-            expires: new Date(0),
-            maxAge: 0 
-          }),
-        ])
+        clearDataCookies()
         return null  // 返回 null 表示 session 不存在
       }
       
       // 2. 处理解密后的数据
+      const { decryptedData, needsReencryption } = decryptResult
       try {
         const now = Date.now()
         if (decryptedData._expires && decryptedData._expires < now) {
           return null
         }
-
-        let newExpiresTime = decryptedData._expires
         
-        // Rolling 模式：每次请求都更新过期时间
-        if (options.rolling) {
-          newExpiresTime = now + maxAge
-        } 
-        // Renew 模式：只在临近过期时更新
-        else if (options.renew) {
-          const timeLeft = decryptedData._expires - now
-          // 如果剩余时间小于 renewBefore 阈值，则更新
-          if (timeLeft < options.renewBefore) {
-            newExpiresTime = now + maxAge
-          }
+        // 没有记录创建时间的旧数据，以最后一次写入的时间估算
+        const createdAt =
+          decryptedData._created ?? (decryptedData._expires ? Math.min(now, decryptedData._expires - maxAge) : now)
+        if (options.absoluteMaxAge && createdAt + options.absoluteMaxAge <= now) {
+          return null
+        }
+        // 超过 idleTimeout 没有活动
+        const lastSeenAt = decryptedData._lastSeen ?? now
+        if (options.idleTimeout && lastSeenAt + options.idleTimeout <= now) {
+          return null
+        }
+        
+        const userData = useMigratedSessionData<UserData>(options.migrations, decryptedData._data, decryptedData._version)
+        if (userData === null) {
+          return null
         }
 
         // Store session metadata in context for parser to use
+        // 续期由 set 完成，中间件据此判断是否需要重新下发凭证
         const sessionMeta = {
+          ...decryptedData._client,
           sessionId,
-          expiresTime: newExpiresTime
+          expiresTime: decryptedData._expires,
+          createdAt,
+          lastSeenAt
         }
         sessionMetaDataCtx.set(sessionMeta)
         
+        // 使用旧密钥或旧格式加密的数据，使用当前密钥重新加密
+        if (needsReencryption) {
+          writeDataCookies(encrypt(sessionId, decryptedData))
+        }
+        
         // Return the stored user data
-        return decryptedData._data as UserData
+        return userData
       } catch (error) {
         return undefined
       }
@@ -281,66 +556,42 @@ export const cookieSessionStore = <UserData>(
           return false
         }
         
-        const cipher = createCipher(sessionMeta.sessionId)
-        
-        // Calculate new expiration time based on mode
-        let expiresTime = sessionMeta.expiresTime
-        
-        // Rolling 模式：总是更新
-        if (options.rolling) {
-          expiresTime = Date.now() + maxAge
-        } 
-        // Renew 模式：检查是否需要更新
-        else if (options.renew) {
-          const now = Date.now()
-          const timeLeft = sessionMeta.expiresTime - now
-          if (timeLeft < options.renewBefore) {
-            expiresTime = now + maxAge
-          }
-        }
-        // 默认模式：保持原有过期时间
+        const lastSeenAt = Date.now()
+        const createdAt = sessionMeta.createdAt ?? lastSeenAt
+        // 根据 rolling/renew 模式计算新的过期时间
+        const expiresTime = nextExpiresTime(expirationOptions, sessionMeta.expiresTime, createdAt)
         
         // Update session metadata context with new expiration time
         const updatedSessionMeta = {
           ...sessionMeta,
-          expiresTime
+          expiresTime,
+          createdAt,
+          lastSeenAt
         }
         sessionMetaDataCtx.set(updatedSessionMeta)
         
-        // 统一存储格式：始终使用 _data 字段
-        const dataToStore = { _data: sessionData, _expires: expiresTime }
-        
-        let encrypted = cipher.update(
-          JSON.stringify(dataToStore),
-          'utf8',
-          'base64',
-        )
-        encrypted += cipher.final('base64')
-        
-        const cookieOptions = {
-          ...options.cookieOptions,
-          maxAge: maxAge,
+        // 统一存储格式：始终使用 _data 字段，配置 migrations 时记录 _version
+        const dataToStore = {
+          _data: sessionData,
+          _expires: expiresTime,
+          _created: createdAt,
+          _lastSeen: lastSeenAt,
+          ...sessionVersionOf(options.migrations),
+          _client: pickClientInfo(sessionMeta),
         }
-
-        authHeaderCtx.set([
-          ...authHeaderCtx.get(),
-          Response.cookie(options.sessionStoreKey, encrypted, cookieOptions),
-        ])
+        writeDataCookies(encrypt(sessionMeta.sessionId, dataToStore))
         return true
       } catch (error) {
+        // 数据超出大小限制时直接抛出，避免数据被静默丢弃
+        if (error instanceof SessionDataTooLargeError) {
+          throw error
+        }
         return undefined
       }
     },
     async destroy() {
       try {
-        authHeaderCtx.set([
-          ...authHeaderCtx.get(),
-          Response.cookie(options.sessionStoreKey, '', { 
-            ...options.cookieOptions, 
-            expires: new Date(0),
-            maxAge: 0 
-          }),
-        ])
+        clearDataCookies()
         sessionMetaDataCtx.set(undefined)
         return true
       } catch (error) {
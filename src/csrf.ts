@@ -0,0 +1,150 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { MaybeAsyncResponse, RequestInfo, Response, useRequestInfo } from 'farrow-http'
+import { Middleware, createContext } from 'farrow-pipeline'
+import { SessionUserDataCtx, sessionRegeneratedCtx } from './auth'
+import { CookieOptions } from './cookie'
+
+export type CsrfProtectionOptions = {
+  /**
+   * 读取 token 的请求头，默认 'x-csrf-token'
+   */
+  headerName?: string
+  /**
+   * 读取 token 的表单字段，默认 '_csrf'
+   */
+  fieldName?: string
+  /**
+   * 不需要校验 token 的请求方法，默认 GET、HEAD、OPTIONS
+   */
+  ignoredMethods?: string[]
+  /**
+   * userData 中保存 secret 的字段，默认 '_csrf'
+   */
+  secretKey?: string
+  /**
+   * 可选：double-submit-cookie 模式，secret 保存在独立的 cookie 中而不是 session 中，适合无状态的部署
+   */
+  doubleSubmit?: {
+    cookieName?: string
+    cookieOptions?: CookieOptions
+  }
+  /**
+   * token 校验失败时的响应，默认返回 403
+   */
+  onInvalid?: (request: RequestInfo) => MaybeAsyncResponse
+}
+
+/**
+ * CSRF 防护：作为中间件使用，并提供 csrfToken 方法为模板或接口生成 token
+ */
+export type CsrfProtection = Middleware<RequestInfo, MaybeAsyncResponse> & {
+  /**
+   * 生成当前 session 的 token，每次调用都会使用新的随机盐
+   * 只能在使用了该中间件的路由中调用
+   */
+  csrfToken(): string
+}
+
+const signToken = (secret: string, salt: string) => createHmac('sha256', secret).update(salt).digest('base64url')
+
+// token 格式为 <salt>.<signature>，每个 token 使用不同的盐，避免 token 内容随响应泄露 secret 的信息
+const createToken = (secret: string) => {
+  const salt = randomBytes(8).toString('base64url')
+  return `${salt}.${signToken(secret, salt)}`
+}
+
+const verifyToken = (secret: string, token: string) => {
+  const [salt, signature] = token.split('.')
+  if (!salt || !signature) return false
+  const expected = Buffer.from(signToken(secret, salt))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * csrfProtection: 对 GET/HEAD/OPTIONS 以外的请求校验请求头或表单中的 token
+ * 默认将 secret 保存在 userData 中，并在 regenerate/login 更换 sessionId 后轮换
+ * 需要在 createFarrowSession 之后使用，session 模式下 secret 的写入依赖 autoSave 或 saveToStore
+ */
+export const csrfProtection = <UserData>(
+  sessionUserDataCtx: SessionUserDataCtx<UserData>,
+  csrfProtectionOptions?: CsrfProtectionOptions,
+): CsrfProtection => {
+  const options = {
+    headerName: 'x-csrf-token',
+    fieldName: '_csrf',
+    ignoredMethods: ['GET', 'HEAD', 'OPTIONS'],
+    secretKey: '_csrf',
+    onInvalid: (): MaybeAsyncResponse => Response.json({ error: 'Invalid CSRF Token' }).status(403),
+    ...csrfProtectionOptions,
+  }
+  const doubleSubmit = options.doubleSubmit && {
+    cookieName: 'csrf:s',
+    ...options.doubleSubmit,
+    cookieOptions: { httpOnly: true, sameSite: 'lax', ...options.doubleSubmit.cookieOptions } satisfies CookieOptions,
+  }
+  const headerName = options.headerName.toLowerCase()
+  const ignoredMethods = options.ignoredMethods.map((method) => method.toUpperCase())
+
+  // 本次请求新生成的 secret（请求级隔离），double-submit 模式下需要写入 cookie
+  const issuedSecretCtx = createContext<string | undefined>(undefined)
+
+  const readSecret = (): string | undefined => {
+    const issuedSecret = issuedSecretCtx.get()
+    if (issuedSecret) return issuedSecret
+    if (doubleSubmit) {
+      return useRequestInfo().cookies?.[doubleSubmit.cookieName]
+    }
+    const secret = (sessionUserDataCtx.get() as Record<string, unknown> | undefined)?.[options.secretKey]
+    return typeof secret === 'string' ? secret : undefined
+  }
+
+  const issueSecret = () => {
+    const secret = randomBytes(32).toString('base64url')
+    issuedSecretCtx.set(secret)
+    if (!doubleSubmit) {
+      sessionUserDataCtx.set({ ...sessionUserDataCtx.get(), [options.secretKey]: secret } as UserData)
+    }
+    return secret
+  }
+
+  // sessionId 被更换后，旧的 secret 不再使用
+  const needsRotation = () => sessionRegeneratedCtx.get() && !issuedSecretCtx.get()
+
+  const readToken = (request: RequestInfo) => {
+    const headerToken = request.headers?.[headerName]
+    if (typeof headerToken === 'string' && headerToken) return headerToken
+    const fieldToken = (request.body as Record<string, unknown> | undefined)?.[options.fieldName]
+    return typeof fieldToken === 'string' ? fieldToken : undefined
+  }
+
+  const middleware: Middleware<RequestInfo, MaybeAsyncResponse> = async (request, next) => {
+    if (!ignoredMethods.includes((request.method ?? 'GET').toUpperCase())) {
+      const secret = readSecret()
+      const token = readToken(request)
+      if (!secret || !token || !verifyToken(secret, token)) {
+        return options.onInvalid(request)
+      }
+    }
+
+    const response = await next(request)
+
+    // regenerate/login 之后未重新生成 token 时，在这里轮换 secret
+    if (needsRotation() && (doubleSubmit || sessionUserDataCtx.get() !== undefined)) {
+      issueSecret()
+    }
+
+    const issuedSecret = issuedSecretCtx.get()
+    if (doubleSubmit && issuedSecret) {
+      return Response.cookie(doubleSubmit.cookieName, issuedSecret, doubleSubmit.cookieOptions).merge(response)
+    }
+    return response
+  }
+
+  return Object.assign(middleware, {
+    csrfToken() {
+      const secret = needsRotation() ? undefined : readSecret()
+      return createToken(secret ?? issueSecret())
+    },
+  })
+}
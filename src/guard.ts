@@ -0,0 +1,145 @@
+import { MaybeAsyncResponse, RequestInfo, Response } from 'farrow-http'
+import { Middleware } from 'farrow-pipeline'
+import { SessionUserDataCtx } from './auth'
+
+export type RequireSessionOptions<UserData> = {
+  /**
+   * 可选：额外的访问条件，返回 false 时拒绝访问（403）
+   */
+  predicate?: (userData: UserData, request: RequestInfo) => boolean | Promise<boolean>
+  /**
+   * 未登录时的响应，默认返回 401，配置 redirectTo 时页面请求会被重定向
+   */
+  onUnauthorized?: (request: RequestInfo) => MaybeAsyncResponse
+  /**
+   * 已登录但不满足 predicate 时的响应，默认返回 403
+   */
+  onForbidden?: (request: RequestInfo, userData: UserData) => MaybeAsyncResponse
+  /**
+   * 可选：未登录时将页面请求（Accept 包含 text/html）重定向到该地址，如登录页
+   */
+  redirectTo?: string
+}
+
+/**
+ * 路由守卫：作为中间件使用，并提供 get 方法在受保护的路由中读取 userData
+ */
+export type SessionGuard<UserData> = Middleware<RequestInfo, MaybeAsyncResponse> & {
+  /**
+   * 读取已通过守卫的 userData，类型已排除 undefined
+   * 只能在使用了该守卫的路由中调用
+   */
+  get(): UserData
+}
+
+const acceptsHtml = (request: RequestInfo) => {
+  const accept = request.headers?.accept
+  return typeof accept === 'string' && accept.includes('text/html')
+}
+
+/**
+ * requireSession: 未登录时返回 401（或重定向），不满足 predicate 时返回 403
+ */
+export const requireSession = <UserData>(
+  sessionUserDataCtx: SessionUserDataCtx<UserData>,
+  requireSessionOptions?: RequireSessionOptions<Exclude<UserData, undefined>>,
+): SessionGuard<Exclude<UserData, undefined>> => {
+  const options = {
+    onUnauthorized: (request: RequestInfo): MaybeAsyncResponse => {
+      if (requireSessionOptions?.redirectTo && acceptsHtml(request)) {
+        return Response.redirect(requireSessionOptions.redirectTo)
+      }
+      return Response.json({ error: 'Unauthorized' }).status(401)
+    },
+    onForbidden: (): MaybeAsyncResponse => Response.json({ error: 'Forbidden' }).status(403),
+    ...requireSessionOptions,
+  }
+
+  const middleware: Middleware<RequestInfo, MaybeAsyncResponse> = async (request, next) => {
+    const userData = sessionUserDataCtx.get() as Exclude<UserData, undefined> | undefined
+    if (userData === undefined) {
+      return options.onUnauthorized(request)
+    }
+    if (options.predicate && !(await options.predicate(userData, request))) {
+      return options.onForbidden(request, userData)
+    }
+    return next(request)
+  }
+
+  return Object.assign(middleware, {
+    get() {
+      const userData = sessionUserDataCtx.get() as Exclude<UserData, undefined> | undefined
+      if (userData === undefined) {
+        throw new Error('No session user data, make sure the route is protected by requireSession')
+      }
+      return userData
+    },
+  })
+}
+
+export type RequireRoleOptions<UserData> = Omit<RequireSessionOptions<UserData>, 'predicate'> & {
+  /**
+   * 从 userData 中读取角色，默认读取 userData.roles（数组）或 userData.role（字符串）
+   */
+  getRoles?: (userData: UserData) => string | string[] | undefined
+}
+
+export type RequirePermissionOptions<UserData> = Omit<RequireSessionOptions<UserData>, 'predicate'> & {
+  /**
+   * 从 userData 中读取权限，默认读取 userData.permissions
+   */
+  getPermissions?: (userData: UserData) => string | string[] | undefined
+}
+
+const toList = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value]
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string')
+  return []
+}
+
+const defaultGetRoles = (userData: unknown) => {
+  const { roles, role } = (userData ?? {}) as { roles?: unknown; role?: unknown }
+  return [...toList(roles), ...toList(role)]
+}
+
+const defaultGetPermissions = (userData: unknown) => {
+  return toList(((userData ?? {}) as { permissions?: unknown }).permissions)
+}
+
+/**
+ * requireRole: 拥有任意一个指定角色即可访问
+ */
+export const requireRole = <UserData>(
+  sessionUserDataCtx: SessionUserDataCtx<UserData>,
+  roles: string | string[],
+  requireRoleOptions?: RequireRoleOptions<Exclude<UserData, undefined>>,
+): SessionGuard<Exclude<UserData, undefined>> => {
+  const { getRoles = defaultGetRoles, ...options } = requireRoleOptions ?? {}
+  const requiredRoles = toList(roles)
+  return requireSession(sessionUserDataCtx, {
+    ...options,
+    predicate: (userData) => {
+      const userRoles = toList(getRoles(userData))
+      return requiredRoles.some((role) => userRoles.includes(role))
+    },
+  })
+}
+
+/**
+ * requirePermission: 需要拥有全部指定权限才能访问
+ */
+export const requirePermission = <UserData>(
+  sessionUserDataCtx: SessionUserDataCtx<UserData>,
+  permissions: string | string[],
+  requirePermissionOptions?: RequirePermissionOptions<Exclude<UserData, undefined>>,
+): SessionGuard<Exclude<UserData, undefined>> => {
+  const { getPermissions = defaultGetPermissions, ...options } = requirePermissionOptions ?? {}
+  const requiredPermissions = toList(permissions)
+  return requireSession(sessionUserDataCtx, {
+    ...options,
+    predicate: (userData) => {
+      const userPermissions = toList(getPermissions(userData))
+      return requiredPermissions.every((permission) => userPermissions.includes(permission))
+    },
+  })
+}
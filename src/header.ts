@@ -0,0 +1,81 @@
+import { Response } from 'farrow-http'
+import { SessionParser } from './auth'
+import { SessionIdCodec } from './cookie'
+import { sessionMetaDataCtx } from './meta'
+
+// headerSessionParser配置选项
+export type HeaderSessionParserOptions = {
+  /**
+   * 读取和写入 sessionId 的请求头/响应头，默认 'x-session-id'
+   */
+  headerName?: string
+  /**
+   * sessionId 的前缀，如 'Bearer'，配合 headerName: 'authorization' 使用
+   */
+  scheme?: string
+  /**
+   * 设置后在响应中通过该头下发 session 的过期时间（ISO 8601 格式）
+   */
+  expiresHeaderName?: string
+  customCodec?: SessionIdCodec
+}
+
+// headerSessionParser: 适用于无法保存 cookie 的客户端，如移动端和命令行工具
+export const headerSessionParser = (headerSessionOptions?: HeaderSessionParserOptions): SessionParser<string> => {
+  const options = {
+    headerName: 'x-session-id',
+    ...headerSessionOptions,
+  }
+  const prefix = options.scheme ? `${options.scheme.toLowerCase()} ` : ''
+
+  return {
+    async get(requestInfo) {
+      const headerValue = requestInfo.headers?.[options.headerName.toLowerCase()]
+      if (typeof headerValue !== 'string' || !headerValue.toLowerCase().startsWith(prefix)) {
+        return null
+      }
+
+      const encodedSessionId = headerValue.slice(prefix.length).trim()
+      if (!encodedSessionId) {
+        return null
+      }
+
+      // Decode using custom codec or base64 by default
+      try {
+        const decodedSessionId = options.customCodec
+          ? options.customCodec.decode(encodedSessionId)
+          : Buffer.from(encodedSessionId, 'base64').toString('utf8')
+        return decodedSessionId || null
+      } catch (error) {
+        return null
+      }
+    },
+
+    async set() {
+      // Get session metadata from context (set by store.create or store.get)
+      const sessionMeta = sessionMetaDataCtx.get()
+      // If not exist sessionMeta, return Response without any modification
+      if (!sessionMeta) {
+        return Response
+      }
+
+      const encodedSessionId = options.customCodec
+        ? options.customCodec.encode(sessionMeta.sessionId)
+        : Buffer.from(sessionMeta.sessionId).toString('base64')
+
+      const response = Response.header(
+        options.headerName,
+        options.scheme ? `${options.scheme} ${encodedSessionId}` : encodedSessionId,
+      )
+      if (options.expiresHeaderName) {
+        return response.header(options.expiresHeaderName, new Date(sessionMeta.expiresTime).toISOString())
+      }
+      return response
+    },
+
+    async remove() {
+      // 空值表示客户端应丢弃已保存的 sessionId
+      return Response.header(options.headerName, '')
+    },
+  }
+}
@@ -1,6 +1,18 @@
 export * from './utils'
 export * from './auth'
 export * from './cookie'
+export * from './meta'
+export * from './memory'
+export * from './kv'
+export * from './jwt'
+export * from './tokenPair'
+export * from './header'
+export * from './compose'
+export * from './migration'
+export * from './serializer'
+export * from './guard'
+export * from './csrf'
+export * from './client'
 
 // 导出类型推导辅助类型
 export type { InferUserData, InferCredit } from './auth'
@@ -0,0 +1,357 @@
+import { KeyObject, createHmac, createPrivateKey, createPublicKey, sign, timingSafeEqual, verify } from 'crypto'
+import type { SetOption } from 'cookies'
+import { RequestInfo, Response, useRequestInfo } from 'farrow-http'
+import { ulid } from 'ulid'
+import { SessionParser, SessionStore } from './auth'
+import { CookieOptions } from './cookie'
+import { sessionMetaDataCtx } from './meta'
+import { nextExpiresTime, oneMinute } from './utils'
+
+// JWT 场景下，sessionMetaDataCtx 中的 sessionId 即为签名后的 token，expiresTime 为 token 的过期时间
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256'
+
+type KeyInput = string | Buffer | KeyObject
+
+// JWT 注册声明，不会暴露在 UserData 中
+const registeredClaims = ['iss', 'aud', 'exp', 'nbf', 'iat', 'jti'] as const
+
+export type JwtClaims = {
+  iss?: string
+  aud?: string | string[]
+  exp?: number
+  nbf?: number
+  iat?: number
+  jti?: string
+  [claim: string]: unknown
+}
+
+const encodeSegment = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+const decodeSegment = <T>(segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T
+
+export type JwtSessionParserOptions = {
+  /**
+   * 读取和写入 token 的请求头/响应头，默认 'authorization'
+   */
+  headerName?: string
+  /**
+   * token 的前缀，默认 'Bearer'
+   */
+  scheme?: string
+  /**
+   * 设置后同时从该 cookie 中读取 token，并通过 cookie 下发新的 token
+   */
+  cookieKey?: string
+  cookieOptions?: CookieOptions
+}
+
+export const jwtSessionParser = (jwtSessionParserOptions?: JwtSessionParserOptions): SessionParser<string> => {
+  const options = {
+    headerName: 'authorization',
+    scheme: 'Bearer',
+    cookieOptions: { httpOnly: true, overwrite: true } as CookieOptions,
+    ...jwtSessionParserOptions,
+  }
+  const prefix = `${options.scheme.toLowerCase()} `
+
+  return {
+    async get(requestInfo: RequestInfo) {
+      const headerValue = requestInfo.headers?.[options.headerName.toLowerCase()]
+      if (typeof headerValue === 'string' && headerValue.toLowerCase().startsWith(prefix)) {
+        const token = headerValue.slice(prefix.length).trim()
+        if (token) return token
+      }
+
+      if (options.cookieKey) {
+        const token = requestInfo.cookies?.[options.cookieKey]
+        if (token) return token
+      }
+
+      return null
+    },
+
+    async set() {
+      // Get session metadata from context (set by store.create/get/set)
+      const sessionMeta = sessionMetaDataCtx.get()
+      if (!sessionMeta) {
+        return Response
+      }
+
+      if (options.cookieKey) {
+        const cookieOptions = {
+          ...options.cookieOptions,
+          expires: new Date(sessionMeta.expiresTime),
+        } satisfies SetOption
+        return Response.cookie(options.cookieKey, sessionMeta.sessionId, cookieOptions)
+      }
+
+      return Response.header(options.headerName, `${options.scheme} ${sessionMeta.sessionId}`)
+    },
+
+    async remove() {
+      if (options.cookieKey) {
+        return Response.cookie(options.cookieKey, '', {
+          ...options.cookieOptions,
+          expires: new Date(0), // Expire immediately
+          maxAge: 0,
+        })
+      }
+
+      return Response.header(options.headerName, '')
+    },
+  }
+}
+
+export type JwtSigningOptions = {
+  /**
+   * 签名算法，默认 HS256
+   */
+  algorithm?: JwtAlgorithm
+  /**
+   * HS256 使用的密钥
+   */
+  secret?: string
+  /**
+   * RS256/ES256 签名使用的私钥，只校验 token 时可以不提供
+   */
+  privateKey?: KeyInput
+  /**
+   * RS256/ES256 校验使用的公钥，未提供时从私钥推导
+   */
+  publicKey?: KeyInput
+  /**
+   * 签发时写入 iss，校验时要求 iss 一致
+   */
+  issuer?: string
+  /**
+   * 签发时写入 aud，校验时要求 aud 至少包含其中一个
+   */
+  audience?: string | string[]
+  /**
+   * 校验 exp/nbf 时允许的时钟偏差（秒），默认 0
+   */
+  clockTolerance?: number
+}
+
+// createJwtCodec: 负责 JWT 的签发与校验，供 jwtSessionStore 等基于 JWT 的存储复用
+export const createJwtCodec = (jwtSigningOptions: JwtSigningOptions) => {
+  const options = {
+    algorithm: 'HS256' as JwtAlgorithm,
+    clockTolerance: 0,
+    ...jwtSigningOptions,
+  }
+
+  if (options.algorithm === 'HS256' && !options.secret) {
+    throw new Error('Secret is required for JWT with HS256 algorithm.')
+  }
+
+  if (options.algorithm !== 'HS256' && !options.privateKey && !options.publicKey) {
+    throw new Error(`A privateKey or publicKey is required for JWT with ${options.algorithm} algorithm.`)
+  }
+
+  const toPrivateKey = (key: KeyInput) => (key instanceof KeyObject ? key : createPrivateKey(key))
+  const toPublicKey = (key: KeyInput) => (key instanceof KeyObject ? key : createPublicKey(key))
+
+  const privateKey = options.privateKey ? toPrivateKey(options.privateKey) : undefined
+  const publicKey = options.publicKey
+    ? toPublicKey(options.publicKey)
+    : privateKey
+      ? createPublicKey(privateKey)
+      : undefined
+
+  const createSignature = (data: string) => {
+    if (options.algorithm === 'HS256') {
+      return createHmac('sha256', options.secret!).update(data).digest()
+    }
+    if (!privateKey) {
+      throw new Error(`A privateKey is required to issue ${options.algorithm} tokens.`)
+    }
+    // ES256 的签名使用 JWS 规定的 r||s 格式
+    return sign('sha256', Buffer.from(data), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+  }
+
+  const verifySignature = (data: string, signature: Buffer) => {
+    if (options.algorithm === 'HS256') {
+      const expected = createHmac('sha256', options.secret!).update(data).digest()
+      return expected.length === signature.length && timingSafeEqual(expected, signature)
+    }
+    return verify('sha256', Buffer.from(data), { key: publicKey!, dsaEncoding: 'ieee-p1363' }, signature)
+  }
+
+  const issueToken = (payload: Record<string, unknown>, expiresTime: number) => {
+    const claims: JwtClaims = {
+      ...payload,
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(expiresTime / 1000),
+      jti: ulid(),
+    }
+    if (options.issuer !== undefined) claims.iss = options.issuer
+    if (options.audience !== undefined) claims.aud = options.audience
+
+    const data = `${encodeSegment({ alg: options.algorithm, typ: 'JWT' })}.${encodeSegment(claims)}`
+    const token = `${data}.${createSignature(data).toString('base64url')}`
+
+    // exp 精确到秒，expiresTime 与之保持一致
+    return { token, expiresTime: claims.exp! * 1000 }
+  }
+
+  // 校验 token，返回其中的声明，无效时返回 null
+  const verifyToken = (token: string) => {
+    const segments = token.split('.')
+    if (segments.length !== 3) return null
+    const [encodedHeader, encodedClaims, encodedSignature] = segments as [string, string, string]
+
+    try {
+      const header = decodeSegment<{ alg?: string }>(encodedHeader)
+      // 只接受配置的算法，防止算法混淆攻击
+      if (header.alg !== options.algorithm) return null
+
+      const signature = Buffer.from(encodedSignature, 'base64url')
+      if (!verifySignature(`${encodedHeader}.${encodedClaims}`, signature)) return null
+
+      const claims = decodeSegment<JwtClaims>(encodedClaims)
+      const now = Date.now() / 1000
+
+      if (typeof claims.exp !== 'number' || claims.exp + options.clockTolerance <= now) return null
+      if (typeof claims.nbf === 'number' && claims.nbf - options.clockTolerance > now) return null
+      if (options.issuer !== undefined && claims.iss !== options.issuer) return null
+      if (options.audience !== undefined) {
+        const expectedAudience = ([] as string[]).concat(options.audience)
+        const tokenAudience = ([] as string[]).concat(claims.aud ?? [])
+        if (!tokenAudience.some((aud) => expectedAudience.includes(aud))) return null
+      }
+
+      return claims
+    } catch (error) {
+      return null
+    }
+  }
+
+  return { issueToken, verifyToken }
+}
+
+export type JwtSessionStoreOptions<UserData> = JwtSigningOptions & {
+  /**
+   * token 有效时间（毫秒），默认30分钟
+   */
+  maxAge?: number
+  dataCreator?: (request: RequestInfo, sessionData?: UserData) => UserData
+  /**
+   * rolling: 每次请求都重新签发 token
+   */
+  rolling?: boolean
+  /**
+   * renew: 只在临近过期时才重新签发 token，需要配合 renewBefore 使用
+   */
+  renew?: boolean
+  /**
+   * renewBefore: 提前多久开始续期（毫秒），仅在 renew 为 true 时生效
+   */
+  renewBefore?: number
+}
+
+// jwtSessionStore: 无状态的 SessionStore，所有数据保存在签名后的 token 中
+export const jwtSessionStore = <UserData>(
+  jwtSessionStoreOptions: JwtSessionStoreOptions<UserData>,
+): SessionStore<UserData, string> => {
+  const options = {
+    maxAge: 30 * oneMinute * 1000,
+    rolling: false,
+    renew: false,
+    renewBefore: 10 * oneMinute * 1000, // 默认10分钟
+    ...jwtSessionStoreOptions,
+  }
+
+  // 验证配置：rolling 和 renew 不能同时为 true
+  if (options.rolling && options.renew) {
+    throw new Error('Cannot use both rolling and renew modes at the same time')
+  }
+
+  const { issueToken, verifyToken } = createJwtCodec(options)
+
+  const toUserData = (claims: JwtClaims) => {
+    const userData: Record<string, unknown> = { ...claims }
+    for (const claim of registeredClaims) {
+      delete userData[claim]
+    }
+    return userData as UserData
+  }
+
+  return {
+    async create(userData?: UserData) {
+      try {
+        const initialData = options.dataCreator
+          ? options.dataCreator(useRequestInfo(), userData)
+          : userData || ({} as UserData)
+
+        const { token, expiresTime } = issueToken(initialData as Record<string, unknown>, Date.now() + options.maxAge)
+
+        // Set session metadata in context for parser to use
+        sessionMetaDataCtx.set({ sessionId: token, expiresTime })
+
+        return initialData
+      } catch (error) {
+        return undefined
+      }
+    },
+    async get(token: string) {
+      const claims = verifyToken(token)
+      if (!claims) {
+        return null
+      }
+
+      // Store session metadata in context for parser to use
+      // 续期由 set/touch 重新签发 token 完成
+      sessionMetaDataCtx.set({ sessionId: token, expiresTime: claims.exp! * 1000 })
+
+      return toUserData(claims)
+    },
+    async set(sessionData: UserData) {
+      try {
+        // 无状态存储：没有 token 时直接签发新的 token
+        const sessionMeta = sessionMetaDataCtx.get()
+        const expiresTime = sessionMeta ? nextExpiresTime(options, sessionMeta.expiresTime) : Date.now() + options.maxAge
+
+        const issued = issueToken(sessionData as Record<string, unknown>, expiresTime)
+        sessionMetaDataCtx.set({ sessionId: issued.token, expiresTime: issued.expiresTime })
+
+        return true
+      } catch (error) {
+        return undefined
+      }
+    },
+    async touch() {
+      try {
+        // 匿名请求没有 token，无需续期
+        const sessionMeta = sessionMetaDataCtx.get()
+        if (!sessionMeta) {
+          return true
+        }
+
+        const claims = verifyToken(sessionMeta.sessionId)
+        if (!claims) {
+          return false
+        }
+
+        // 过期时间未变化时无需重新签发
+        const expiresTime = nextExpiresTime(options, sessionMeta.expiresTime)
+        if (expiresTime === claims.exp! * 1000) {
+          return true
+        }
+
+        const issued = issueToken(toUserData(claims) as Record<string, unknown>, expiresTime)
+        sessionMetaDataCtx.set({ sessionId: issued.token, expiresTime: issued.expiresTime })
+
+        return true
+      } catch (error) {
+        return undefined
+      }
+    },
+    async destroy() {
+      // 无状态 token 无法在服务端撤销，只清除元数据，由 parser 移除客户端的 token
+      sessionMetaDataCtx.set(undefined)
+      return true
+    },
+  }
+}
@@ -0,0 +1,366 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { RequestInfo, useRequestInfo } from 'farrow-http'
+import { ulid } from 'ulid'
+import { SessionStore } from './auth'
+import { sessionMetaDataCtx } from './meta'
+import { nextExpiresTime, oneMinute } from './utils'
+import { SessionMigrations, useMigratedSessionData, sessionVersionOf } from './migration'
+import { SessionSerializer, jsonSerializer } from './serializer'
+import { SessionClientInfo, pickClientInfo, readClientInfo } from './client'
+
+/**
+ * KeyValueBackend是服务端session存储的最小接口，Redis/SQL等适配器只需实现这四个方法
+ * KeyValueBackend is the minimal interface of a server-side session storage, Redis/SQL adapters only need to implement these four methods
+ *
+ * 所有 ttl 的单位均为毫秒，发生内部错误时直接抛出异常即可
+ */
+export type KeyValueBackend = {
+  /**
+   * 获取 key 对应的值，不存在或已过期时返回 null
+   */
+  get(key: string): Promise<string | null>
+  /**
+   * 设置 key 对应的值，并在 ttl 毫秒后过期
+   */
+  set(key: string, value: string, ttl: number): Promise<void>
+  /**
+   * 删除 key
+   */
+  del(key: string): Promise<void>
+  /**
+   * 更新 key 的过期时间为 ttl 毫秒后，key 不存在时返回 false
+   */
+  expire(key: string, ttl: number): Promise<boolean>
+}
+
+export type KeyValueSessionStoreOptions<UserData> = {
+  backend: KeyValueBackend
+  /**
+   * 存储时 key 的前缀，默认 'sess:'
+   */
+  prefix?: string
+  /**
+   * session 有效时间（毫秒），默认30分钟
+   */
+  maxAge?: number
+  dataCreator?: (request: RequestInfo, sessionData?: UserData) => UserData
+  /**
+   * rolling: 每次请求都重置过期时间
+   */
+  rolling?: boolean
+  /**
+   * renew: 只在临近过期时才更新过期时间，需要配合 renewBefore 使用
+   */
+  renew?: boolean
+  /**
+   * renewBefore: 提前多久开始续期（毫秒），仅在 renew 为 true 时生效
+   */
+  renewBefore?: number
+  /**
+   * absoluteMaxAge: session 自创建起的最长有效时间（毫秒），超出后无论 rolling/renew 如何续期都会失效
+   */
+  absoluteMaxAge?: number
+  /**
+   * idleTimeout: 超过该时间（毫秒）没有活动时 session 失效
+   * 开启后 touch 需要读取并重新写入数据以更新最近活动时间
+   */
+  idleTimeout?: number
+  /**
+   * 可选：userData 结构变更时的升级函数列表，版本号与数据一同保存
+   */
+  migrations?: SessionMigrations
+  /**
+   * 序列化方式，默认 jsonSerializer
+   */
+  serializer?: SessionSerializer
+  /**
+   * 创建 session 时是否记录客户端的 IP、UserAgent 和设备，默认 true
+   */
+  captureClientInfo?: boolean
+  /**
+   * 记录 IP 时是否信任 X-Forwarded-For 请求头，默认 false
+   */
+  trustProxy?: boolean
+}
+
+// createKeyValueSessionStore: 基于 KeyValueBackend 创建服务端 SessionStore
+export const createKeyValueSessionStore = <UserData>(
+  keyValueSessionStoreOptions: KeyValueSessionStoreOptions<UserData>,
+): SessionStore<UserData, string> => {
+  const options = {
+    prefix: 'sess:',
+    maxAge: 30 * oneMinute * 1000,
+    rolling: false,
+    renew: false,
+    renewBefore: 10 * oneMinute * 1000, // 默认10分钟
+    serializer: jsonSerializer,
+    captureClientInfo: true,
+    ...keyValueSessionStoreOptions,
+  }
+
+  // 验证配置：rolling 和 renew 不能同时为 true
+  if (options.rolling && options.renew) {
+    throw new Error('Cannot use both rolling and renew modes at the same time')
+  }
+
+  const { backend } = options
+  const toKey = (sessionId: string) => `${options.prefix}${sessionId}`
+
+  type StoredSessionData = {
+    _data: unknown
+    _expires: number
+    _created?: number
+    _lastSeen?: number
+    _version?: number
+    _client?: SessionClientInfo
+  }
+
+  const write = (sessionId: string, dataToStore: StoredSessionData) => {
+    return backend.set(toKey(sessionId), options.serializer.serialize(dataToStore), dataToStore._expires - Date.now())
+  }
+
+  // 统一存储格式：与 cookieSessionStore 一致使用 _data/_expires/_created/_lastSeen/_version/_client 字段
+  const toStoredData = (
+    userData: UserData,
+    expiresTime: number,
+    createdAt: number,
+    lastSeenAt: number,
+    clientInfo: SessionClientInfo | undefined,
+  ) => {
+    return {
+      _data: userData,
+      _expires: expiresTime,
+      _created: createdAt,
+      _lastSeen: lastSeenAt,
+      ...sessionVersionOf(options.migrations),
+      _client: clientInfo,
+    }
+  }
+
+  return {
+    async create(userData?: UserData) {
+      try {
+        // 重新生成 session 时删除旧的 session，防止会话固定攻击
+        const previousSessionMeta = sessionMetaDataCtx.get()
+        if (previousSessionMeta) {
+          await backend.del(toKey(previousSessionMeta.sessionId))
+        }
+
+        const sessionId = ulid()
+        const createdAt = Date.now()
+        const expiresTime = nextExpiresTime(options, createdAt + options.maxAge, createdAt)
+        const clientInfo = readClientInfo({ trustProxy: options.trustProxy, captureClientInfo: options.captureClientInfo })
+
+        const initialData = options.dataCreator
+          ? options.dataCreator(useRequestInfo(), userData)
+          : userData || ({} as UserData)
+
+        await write(sessionId, toStoredData(initialData, expiresTime, createdAt, createdAt, clientInfo))
+
+        // Set session metadata in context for parser to use
+        sessionMetaDataCtx.set({ ...clientInfo, sessionId, expiresTime, createdAt, lastSeenAt: createdAt })
+
+        return initialData
+      } catch (error) {
+        return undefined
+      }
+    },
+    async get(sessionId: string) {
+      try {
+        const storedData = await backend.get(toKey(sessionId))
+        if (storedData === null) {
+          return null
+        }
+
+        // 过期由后端的 ttl 保证，能读取到即代表 session 仍然有效
+        const parsedData = options.serializer.deserialize(storedData) as StoredSessionData
+        const userData = useMigratedSessionData<UserData>(options.migrations, parsedData._data, parsedData._version)
+        if (userData === null) {
+          return null
+        }
+
+        // 没有记录创建时间的旧数据，以最后一次写入的时间估算
+        const createdAt = parsedData._created ?? Math.min(Date.now(), parsedData._expires - options.maxAge)
+        if (options.absoluteMaxAge && createdAt + options.absoluteMaxAge <= Date.now()) {
+          return null
+        }
+        // 超过 idleTimeout 没有活动
+        const lastSeenAt = parsedData._lastSeen ?? Date.now()
+        if (options.idleTimeout && lastSeenAt + options.idleTimeout <= Date.now()) {
+          await backend.del(toKey(sessionId))
+          return null
+        }
+
+        // Store session metadata in context for parser to use
+        // 续期由 set/touch 完成，中间件据此判断是否需要重新下发凭证
+        sessionMetaDataCtx.set({
+          ...parsedData._client,
+          sessionId,
+          expiresTime: parsedData._expires,
+          createdAt,
+          lastSeenAt,
+        })
+
+        return userData
+      } catch (error) {
+        return undefined
+      }
+    },
+    async set(sessionData: UserData) {
+      try {
+        const sessionMeta = sessionMetaDataCtx.get()
+        if (!sessionMeta) {
+          return false
+        }
+
+        const lastSeenAt = Date.now()
+        const createdAt = sessionMeta.createdAt ?? lastSeenAt
+        const expiresTime = nextExpiresTime(options, sessionMeta.expiresTime, createdAt)
+        await write(
+          sessionMeta.sessionId,
+          toStoredData(sessionData, expiresTime, createdAt, lastSeenAt, pickClientInfo(sessionMeta)),
+        )
+        sessionMetaDataCtx.set({ ...sessionMeta, expiresTime, createdAt, lastSeenAt })
+
+        return true
+      } catch (error) {
+        return undefined
+      }
+    },
+    async touch() {
+      try {
+        const sessionMeta = sessionMetaDataCtx.get()
+        if (!sessionMeta) {
+          return false
+        }
+
+        const expiresTime = nextExpiresTime(options, sessionMeta.expiresTime, sessionMeta.createdAt ?? Date.now())
+
+        // 开启 idleTimeout 或 renew 时，下一次 get 依赖 _lastSeen 和 _expires 判断，需要重写最近活动时间和过期时间，不修改数据
+        if (options.idleTimeout || options.renew) {
+          const storedData = await backend.get(toKey(sessionMeta.sessionId))
+          if (storedData === null) {
+            return false
+          }
+          const lastSeenAt = Date.now()
+          const parsedData = options.serializer.deserialize(storedData) as StoredSessionData
+          await write(sessionMeta.sessionId, { ...parsedData, _expires: expiresTime, _lastSeen: lastSeenAt })
+          sessionMetaDataCtx.set({ ...sessionMeta, expiresTime, lastSeenAt })
+          return true
+        }
+
+        // rolling 模式每次都会重新计算过期时间，固定过期时间不会变化，只需更新后端的过期时间
+        const expireResult = await backend.expire(toKey(sessionMeta.sessionId), expiresTime - Date.now())
+        if (!expireResult) {
+          return false
+        }
+        sessionMetaDataCtx.set({ ...sessionMeta, expiresTime })
+
+        return true
+      } catch (error) {
+        return undefined
+      }
+    },
+    async destroy() {
+      try {
+        const sessionMeta = sessionMetaDataCtx.get()
+        if (!sessionMeta) {
+          return false
+        }
+
+        await backend.del(toKey(sessionMeta.sessionId))
+        sessionMetaDataCtx.set(undefined)
+        return true
+      } catch (error) {
+        return undefined
+      }
+    },
+  }
+}
+
+// memoryKeyValueBackend: 基于 Map 的内存后端，过期的 key 在访问时惰性删除
+export const memoryKeyValueBackend = (): KeyValueBackend => {
+  const entries = new Map<string, { value: string; expires: number }>()
+
+  const read = (key: string) => {
+    const entry = entries.get(key)
+    if (!entry) return undefined
+    if (entry.expires <= Date.now()) {
+      entries.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  return {
+    async get(key) {
+      return read(key)?.value ?? null
+    },
+    async set(key, value, ttl) {
+      entries.set(key, { value, expires: Date.now() + ttl })
+    },
+    async del(key) {
+      entries.delete(key)
+    },
+    async expire(key, ttl) {
+      const entry = read(key)
+      if (!entry) return false
+      entry.expires = Date.now() + ttl
+      return true
+    },
+  }
+}
+
+export type FileSystemKeyValueBackendOptions = {
+  /**
+   * 存放 session 文件的目录，不存在时会自动创建
+   */
+  directory: string
+}
+
+// fileSystemKeyValueBackend: 每个 key 保存为目录下的一个 JSON 文件，适合本地开发和测试
+export const fileSystemKeyValueBackend = (options: FileSystemKeyValueBackendOptions): KeyValueBackend => {
+  const toPath = (key: string) => join(options.directory, `${encodeURIComponent(key)}.json`)
+
+  const read = async (key: string) => {
+    let content: string
+    try {
+      content = await readFile(toPath(key), 'utf8')
+    } catch (err) {
+      // 文件不存在视为 key 不存在，其他错误继续抛出
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+      throw err
+    }
+    const entry = JSON.parse(content) as { value: string; expires: number }
+    if (entry.expires <= Date.now()) {
+      await rm(toPath(key), { force: true })
+      return undefined
+    }
+    return entry
+  }
+
+  const write = async (key: string, entry: { value: string; expires: number }) => {
+    await mkdir(options.directory, { recursive: true })
+    await writeFile(toPath(key), JSON.stringify(entry), 'utf8')
+  }
+
+  return {
+    async get(key) {
+      const entry = await read(key)
+      return entry?.value ?? null
+    },
+    async set(key, value, ttl) {
+      await write(key, { value, expires: Date.now() + ttl })
+    },
+    async del(key) {
+      await rm(toPath(key), { force: true })
+    },
+    async expire(key, ttl) {
+      const entry = await read(key)
+      if (!entry) return false
+      await write(key, { ...entry, expires: Date.now() + ttl })
+      return true
+    },
+  }
+}
@@ -0,0 +1,376 @@
+import { RequestInfo, useRequestInfo } from 'farrow-http'
+import { ulid } from 'ulid'
+import { SessionInfo, SessionStore } from './auth'
+import { SessionMetaData, sessionMetaDataCtx } from './meta'
+import { nextExpiresTime, oneMinute } from './utils'
+import { SessionMigrations, useMigratedSessionData } from './migration'
+import { SessionSerializer, jsonSerializer } from './serializer'
+import { SessionClientInfo, pickClientInfo, readClientInfo } from './client'
+
+export type MemorySessionStoreOptions<UserData> = {
+  /**
+   * session 有效时间（毫秒），默认30分钟
+   */
+  maxAge?: number
+  dataCreator?: (request: RequestInfo, sessionData?: UserData) => UserData
+  /**
+   * rolling: 每次请求都重置过期时间
+   */
+  rolling?: boolean
+  /**
+   * renew: 只在临近过期时才更新过期时间，需要配合 renewBefore 使用
+   */
+  renew?: boolean
+  /**
+   * renewBefore: 提前多久开始续期（毫秒），仅在 renew 为 true 时生效
+   */
+  renewBefore?: number
+  /**
+   * absoluteMaxAge: session 自创建起的最长有效时间（毫秒），超出后无论 rolling/renew 如何续期都会失效
+   */
+  absoluteMaxAge?: number
+  /**
+   * idleTimeout: 超过该时间（毫秒）没有活动时 session 失效，touch 会更新最近活动时间
+   */
+  idleTimeout?: number
+  /**
+   * 清理过期 session 的间隔（毫秒），默认1分钟，设置为 0 时关闭定时清理
+   */
+  sweepInterval?: number
+  /**
+   * 最多保存的 session 数量，超出时淘汰最久未使用的 session
+   */
+  maxEntries?: number
+  /**
+   * 可选：userData 结构变更时的升级函数列表，版本号与数据一同保存
+   */
+  migrations?: SessionMigrations
+  /**
+   * 序列化方式，默认 jsonSerializer
+   */
+  serializer?: SessionSerializer
+  /**
+   * 可选：从 userData 中读取所属用户，配置后按用户索引 session，支持 listByUser、destroyByUser 和 destroyOthers
+   */
+  userIdOf?: (userData: UserData) => string | undefined
+  /**
+   * 创建 session 时是否记录客户端的 IP、UserAgent 和设备，默认 true
+   */
+  captureClientInfo?: boolean
+  /**
+   * 记录 IP 时是否信任 X-Forwarded-For 请求头，默认 false
+   */
+  trustProxy?: boolean
+}
+
+type MemoryEntry = {
+  data: string
+  expires: number
+  created: number
+  lastSeen: number
+  version?: number
+  userId?: string
+  client?: SessionClientInfo
+}
+
+export type MemorySessionStore<UserData> = SessionStore<UserData, string> & {
+  /**
+   * 当前保存的 session 数量
+   */
+  readonly size: number
+  /**
+   * 立即清理所有已过期的 session，返回清理的数量
+   */
+  sweep(): number
+  /**
+   * 清空所有 session
+   */
+  clear(): void
+  /**
+   * 停止定时清理
+   */
+  stopSweep(): void
+  /**
+   * 返回用户所有未过期的 session，需要配置 userIdOf
+   */
+  listByUser(userId: string): Promise<SessionInfo[]>
+  /**
+   * 销毁用户的所有 session（except 中的除外），返回销毁的数量，需要配置 userIdOf
+   */
+  destroyByUser(userId: string, options?: { except?: string | string[] }): Promise<number>
+}
+
+// memorySessionStore: 将 session 数据保存在进程内存中，适合开发环境和单节点部署
+export const memorySessionStore = <UserData>(
+  memorySessionStoreOptions?: MemorySessionStoreOptions<UserData>,
+): MemorySessionStore<UserData> => {
+  const options = {
+    maxAge: 30 * oneMinute * 1000,
+    rolling: false,
+    renew: false,
+    renewBefore: 10 * oneMinute * 1000, // 默认10分钟
+    sweepInterval: oneMinute * 1000,
+    maxEntries: Infinity,
+    serializer: jsonSerializer,
+    captureClientInfo: true,
+    ...memorySessionStoreOptions,
+  }
+
+  // 验证配置：rolling 和 renew 不能同时为 true
+  if (options.rolling && options.renew) {
+    throw new Error('Cannot use both rolling and renew modes at the same time')
+  }
+
+  // Map 保持插入顺序，最近使用的 session 始终位于末尾，用于 LRU 淘汰
+  const entries = new Map<string, MemoryEntry>()
+  // userId -> sessionId 集合，仅在配置了 userIdOf 时使用
+  const userIndex = new Map<string, Set<string>>()
+
+  const unindex = (sessionId: string, entry: MemoryEntry) => {
+    if (entry.userId === undefined) return
+    const sessionIds = userIndex.get(entry.userId)
+    sessionIds?.delete(sessionId)
+    if (sessionIds?.size === 0) {
+      userIndex.delete(entry.userId)
+    }
+  }
+
+  const remove = (sessionId: string) => {
+    const entry = entries.get(sessionId)
+    if (!entry) return
+    entries.delete(sessionId)
+    unindex(sessionId, entry)
+  }
+
+  const write = (sessionId: string, entry: MemoryEntry) => {
+    remove(sessionId)
+    entries.set(sessionId, entry)
+    if (entry.userId !== undefined) {
+      userIndex.set(entry.userId, (userIndex.get(entry.userId) ?? new Set()).add(sessionId))
+    }
+    while (entries.size > options.maxEntries) {
+      const oldestSessionId = entries.keys().next().value
+      if (oldestSessionId === undefined) break
+      remove(oldestSessionId)
+    }
+  }
+
+  // 超过过期时间，或超过 idleTimeout 没有活动
+  const isExpired = (entry: MemoryEntry, now: number) => {
+    return entry.expires <= now || (!!options.idleTimeout && entry.lastSeen + options.idleTimeout <= now)
+  }
+
+  const sweep = () => {
+    const now = Date.now()
+    let count = 0
+    for (const [sessionId, entry] of entries) {
+      if (isExpired(entry, now)) {
+        remove(sessionId)
+        count++
+      }
+    }
+    return count
+  }
+
+  let sweepTimer: ReturnType<typeof setInterval> | undefined
+  if (options.sweepInterval > 0) {
+    sweepTimer = setInterval(sweep, options.sweepInterval)
+    // 不阻止进程退出
+    sweepTimer.unref?.()
+  }
+
+  return {
+    get size() {
+      return entries.size
+    },
+    sweep,
+    clear() {
+      entries.clear()
+      userIndex.clear()
+    },
+    stopSweep() {
+      if (sweepTimer) {
+        clearInterval(sweepTimer)
+        sweepTimer = undefined
+      }
+    },
+    async create(userData?: UserData) {
+      try {
+        // 重新生成 session 时删除旧的 session，防止会话固定攻击
+        const previousSessionMeta = sessionMetaDataCtx.get()
+        if (previousSessionMeta) {
+          remove(previousSessionMeta.sessionId)
+        }
+
+        const sessionId = ulid()
+        const createdAt = Date.now()
+        const expiresTime = nextExpiresTime(options, createdAt + options.maxAge, createdAt)
+        const clientInfo = readClientInfo({ trustProxy: options.trustProxy, captureClientInfo: options.captureClientInfo })
+
+        const initialData = options.dataCreator
+          ? options.dataCreator(useRequestInfo(), userData)
+          : userData || ({} as UserData)
+
+        write(sessionId, {
+          data: options.serializer.serialize(initialData),
+          expires: expiresTime,
+          created: createdAt,
+          lastSeen: createdAt,
+          version: options.migrations?.length,
+          userId: options.userIdOf?.(initialData),
+          client: clientInfo,
+        })
+
+        // Set session metadata in context for parser to use
+        sessionMetaDataCtx.set({ ...clientInfo, sessionId, expiresTime, createdAt, lastSeenAt: createdAt })
+
+        return initialData
+      } catch (error) {
+        return undefined
+      }
+    },
+    async get(sessionId: string) {
+      const entry = entries.get(sessionId)
+      if (!entry) {
+        return null
+      }
+
+      if (isExpired(entry, Date.now())) {
+        remove(sessionId)
+        return null
+      }
+
+      try {
+        const userData = useMigratedSessionData<UserData>(
+          options.migrations,
+          options.serializer.deserialize(entry.data),
+          entry.version,
+        )
+        if (userData === null) {
+          remove(sessionId)
+          return null
+        }
+        // 更新 LRU 顺序
+        write(sessionId, entry)
+
+        // Store session metadata in context for parser to use
+        // 续期由 set/touch 完成，中间件据此判断是否需要重新下发凭证
+        sessionMetaDataCtx.set({
+          ...entry.client,
+          sessionId,
+          expiresTime: entry.expires,
+          createdAt: entry.created,
+          lastSeenAt: entry.lastSeen,
+        })
+
+        return userData
+      } catch (error) {
+        return undefined
+      }
+    },
+    async set(sessionData: UserData) {
+      try {
+        const sessionMeta = sessionMetaDataCtx.get()
+        if (!sessionMeta) {
+          return false
+        }
+        // session 已被销毁（如其他设备调用了 destroyOthers）时不再写回
+        if (!entries.has(sessionMeta.sessionId)) {
+          return false
+        }
+
+        const lastSeenAt = Date.now()
+        const createdAt = sessionMeta.createdAt ?? lastSeenAt
+        const expiresTime = nextExpiresTime(options, sessionMeta.expiresTime, createdAt)
+        write(sessionMeta.sessionId, {
+          data: options.serializer.serialize(sessionData),
+          expires: expiresTime,
+          created: createdAt,
+          lastSeen: lastSeenAt,
+          version: options.migrations?.length,
+          userId: options.userIdOf?.(sessionData),
+          client: pickClientInfo(sessionMeta),
+        })
+        sessionMetaDataCtx.set({ ...sessionMeta, expiresTime, createdAt, lastSeenAt })
+
+        return true
+      } catch (error) {
+        return undefined
+      }
+    },
+    async restore(sessionMeta: SessionMetaData, sessionData: UserData) {
+      try {
+        // 按原有的 sessionId 和元数据写回被 create 删除的 session
+        const now = Date.now()
+        write(sessionMeta.sessionId, {
+          data: options.serializer.serialize(sessionData),
+          expires: sessionMeta.expiresTime,
+          created: sessionMeta.createdAt ?? now,
+          lastSeen: sessionMeta.lastSeenAt ?? now,
+          version: options.migrations?.length,
+          userId: options.userIdOf?.(sessionData),
+          client: pickClientInfo(sessionMeta),
+        })
+        return true
+      } catch (error) {
+        return undefined
+      }
+    },
+    async touch() {
+      const sessionMeta = sessionMetaDataCtx.get()
+      if (!sessionMeta) {
+        return false
+      }
+
+      const entry = entries.get(sessionMeta.sessionId)
+      if (!entry) {
+        return false
+      }
+
+      // 只更新过期时间和最近活动时间，不修改数据
+      const lastSeenAt = Date.now()
+      const expiresTime = nextExpiresTime(options, sessionMeta.expiresTime, entry.created)
+      write(sessionMeta.sessionId, { ...entry, expires: expiresTime, lastSeen: lastSeenAt })
+      sessionMetaDataCtx.set({ ...sessionMeta, expiresTime, lastSeenAt })
+
+      return true
+    },
+    async destroy() {
+      const sessionMeta = sessionMetaDataCtx.get()
+      if (!sessionMeta) {
+        return false
+      }
+
+      remove(sessionMeta.sessionId)
+      sessionMetaDataCtx.set(undefined)
+      return true
+    },
+    ...(options.userIdOf && { userIdOf: options.userIdOf }),
+    async listByUser(userId: string) {
+      const now = Date.now()
+      const sessions: SessionInfo[] = []
+      for (const sessionId of userIndex.get(userId) ?? []) {
+        const entry = entries.get(sessionId)
+        if (!entry || isExpired(entry, now)) continue
+        sessions.push({
+          ...entry.client,
+          sessionId,
+          expiresTime: entry.expires,
+          createdAt: entry.created,
+          lastSeenAt: entry.lastSeen,
+        })
+      }
+      return sessions
+    },
+    async destroyByUser(userId: string, destroyOptions?: { except?: string | string[] }) {
+      const except = ([] as string[]).concat(destroyOptions?.except ?? [])
+      let count = 0
+      for (const sessionId of [...(userIndex.get(userId) ?? [])]) {
+        if (except.includes(sessionId)) continue
+        remove(sessionId)
+        count++
+      }
+      return count
+    },
+  }
+}
@@ -0,0 +1,24 @@
+import { createContext } from 'farrow-pipeline'
+import { SessionClientInfo } from './client'
+
+export type SessionMetaData = SessionClientInfo & {
+  sessionId: string
+  expiresTime: number
+  /**
+   * session 的创建时间，由支持的 Store 设置
+   */
+  createdAt?: number
+  /**
+   * session 最近一次被使用的时间，由支持的 Store 设置
+   */
+  lastSeenAt?: number
+}
+
+// Context for session metadata communication between parser and store
+export const sessionMetaDataCtx = createContext<SessionMetaData | undefined>(undefined)
+
+/**
+ * 在处理函数中读取当前 session 的元数据（创建时间、最近活动时间、IP、UserAgent、设备等）
+ * 没有 session 时返回 undefined
+ */
+export const useSessionMeta = (): Readonly<SessionMetaData> | undefined => sessionMetaDataCtx.get()
@@ -0,0 +1,60 @@
+import { createContext } from 'farrow-pipeline'
+
+// 单个升级函数：存储中读取的旧数据未经校验，参数为 unknown
+export type SessionMigration = (oldData: unknown) => unknown
+
+/**
+ * 升级函数列表：migrations[i] 将版本 i 的 userData 升级为版本 i + 1
+ * 当前版本号即 migrations.length，未记录版本号的旧数据视为版本 0
+ * 只能在末尾追加新的升级函数，不能修改或删除已发布的升级函数
+ */
+export type SessionMigrations = Array<SessionMigration>
+
+// 按旧版本的数据结构声明升级函数，旧数据的类型只是约定，运行时不会校验
+export const defineSessionMigration = <OldData, NewData>(migration: (oldData: OldData) => NewData): SessionMigration => {
+  return migration as (oldData: unknown) => NewData
+}
+
+// 本次请求加载的 userData 是否经过升级，由 SessionStore 设置，createFarrowSession 据此将数据标记为已修改，以便 autoSave 写回
+export const sessionMigratedCtx = createContext<boolean>(false)
+
+// 写入 Store 时附加的版本号字段，未配置 migrations 时不写入
+export const sessionVersionOf = (migrations?: SessionMigrations) => {
+  return migrations ? { _version: migrations.length } : {}
+}
+
+/**
+ * 将 version 版本的数据依次升级到最新版本
+ * 数据版本高于当前代码的版本时（如回滚部署）无法读取，返回 null
+ */
+export const migrateSessionData = <UserData>(
+  migrations: SessionMigrations | undefined,
+  data: unknown,
+  version = 0,
+): UserData | null => {
+  if (!migrations) {
+    return data as UserData
+  }
+  if (version > migrations.length) {
+    return null
+  }
+
+  let migratedData = data
+  for (const migration of migrations.slice(version)) {
+    migratedData = migration(migratedData)
+  }
+  return migratedData as UserData
+}
+
+// 供 SessionStore 在 get 中使用：升级数据，并在发生升级时通过 sessionMigratedCtx 通知 createFarrowSession
+export const useMigratedSessionData = <UserData>(
+  migrations: SessionMigrations | undefined,
+  data: unknown,
+  version = 0,
+): UserData | null => {
+  const migratedData = migrateSessionData<UserData>(migrations, data, version)
+  if (migratedData !== null && migrations && version < migrations.length) {
+    sessionMigratedCtx.set(true)
+  }
+  return migratedData
+}
@@ -0,0 +1,101 @@
+// SessionSerializer: SessionStore 保存数据时使用的序列化方式
+export type SessionSerializer = {
+  serialize(value: unknown): string
+  deserialize(text: string): unknown
+}
+
+// 默认的 JSON 序列化，Date 会变为字符串，Map/Set 会变为空对象，BigInt 无法序列化
+export const jsonSerializer: SessionSerializer = {
+  serialize: (value) => JSON.stringify(value),
+  deserialize: (text) => JSON.parse(text),
+}
+
+// 类型标记字段，包含该字段的普通对象会被额外包装，避免与标记值混淆
+const tagKey = '$t'
+
+type TaggedValue = { [tagKey]: string; v?: unknown }
+
+const isPlainObject = (value: object): value is Record<string, unknown> => {
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+const encode = (value: unknown): unknown => {
+  if (value === undefined) {
+    return { [tagKey]: 'undefined' }
+  }
+  if (typeof value === 'bigint') {
+    return { [tagKey]: 'BigInt', v: value.toString() }
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value
+  }
+  if (value instanceof Date) {
+    const time = value.getTime()
+    return { [tagKey]: 'Date', v: Number.isNaN(time) ? null : time }
+  }
+  if (value instanceof Map) {
+    return { [tagKey]: 'Map', v: [...value].map(([key, item]) => [encode(key), encode(item)]) }
+  }
+  if (value instanceof Set) {
+    return { [tagKey]: 'Set', v: [...value].map(encode) }
+  }
+  if (Array.isArray(value)) {
+    return Array.from(value, encode)
+  }
+
+  // 其他对象按普通对象处理，只保留自身可枚举属性
+  const source = isPlainObject(value) ? value : { ...value }
+  const encoded: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(source)) {
+    encoded[key] = encode(item)
+  }
+  return Object.prototype.hasOwnProperty.call(encoded, tagKey) ? { [tagKey]: 'Object', v: encoded } : encoded
+}
+
+const decodeEntries = (encoded: Record<string, unknown>) => {
+  const decoded: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(encoded)) {
+    decoded[key] = decode(item)
+  }
+  return decoded
+}
+
+const decode = (value: unknown): unknown => {
+  if (typeof value !== 'object' || value === null) {
+    return value
+  }
+  if (Array.isArray(value)) {
+    return value.map(decode)
+  }
+  if (!Object.prototype.hasOwnProperty.call(value, tagKey)) {
+    return decodeEntries(value as Record<string, unknown>)
+  }
+
+  const tagged = value as TaggedValue
+  switch (tagged[tagKey]) {
+    case 'undefined':
+      return undefined
+    case 'BigInt':
+      return BigInt(tagged.v as string)
+    case 'Date':
+      return new Date((tagged.v as number | null) ?? NaN)
+    case 'Map':
+      return new Map((tagged.v as [unknown, unknown][]).map(([key, item]) => [decode(key), decode(item)]))
+    case 'Set':
+      return new Set((tagged.v as unknown[]).map(decode))
+    case 'Object':
+      return decodeEntries(tagged.v as Record<string, unknown>)
+    default:
+      throw new Error(`Unknown serialized type: ${tagged[tagKey]}`)
+  }
+}
+
+/**
+ * richSerializer: 在 JSON 的基础上保留 Date、Map、Set、BigInt 和 undefined
+ * 可以读取 jsonSerializer 写入的数据，便于从默认序列化方式平滑切换
+ */
+export const richSerializer: SessionSerializer = {
+  serialize: (value) => JSON.stringify(encode(value)),
+  deserialize: (text) => decode(JSON.parse(text)),
+}
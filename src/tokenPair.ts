@@ -0,0 +1,344 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import type { SetOption } from 'cookies'
+import { RequestInfo, Response, useRequestInfo } from 'farrow-http'
+import { createContext } from 'farrow-pipeline'
+import { ulid } from 'ulid'
+import { SessionParser, SessionStore, sessionHeaderCtx } from './auth'
+import { CookieOptions } from './cookie'
+import { sessionMetaDataCtx } from './meta'
+import { JwtSigningOptions, createJwtCodec } from './jwt'
+import { KeyValueBackend, memoryKeyValueBackend } from './kv'
+import { oneDay, oneMinute } from './utils'
+
+// 双 token 模式下，sessionMetaDataCtx 中的 sessionId 为 token 家族（一次登录）的 id，expiresTime 为 refresh token 的过期时间
+
+/**
+ * 同时携带 access token 和 refresh token 的用户凭证
+ */
+export type TokenPair = {
+  accessToken?: string
+  refreshToken?: string
+}
+
+// 待下发给客户端的新 token（请求级隔离），parser.set() 下发后清空
+const pendingTokenPairCtx = createContext<
+  | {
+      accessToken: string
+      accessTokenExpiresTime: number
+      refreshToken?: string
+      refreshTokenExpiresTime?: number
+    }
+  | undefined
+>(undefined)
+
+// 保存在后端的 token 家族记录
+type TokenFamily<UserData> = {
+  data: UserData
+  // 当前有效的 refresh token 的哈希
+  refreshTokenHash: string
+  // 已轮换的 refresh token 的哈希，再次出现即视为被盗用
+  rotatedTokenHashes?: string[]
+  expires: number
+}
+
+// access token 中除用户数据之外的声明
+const accessTokenClaims = ['iss', 'aud', 'exp', 'nbf', 'iat', 'jti', 'fid'] as const
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('base64url')
+
+const hashEquals = (expectedHash: string, actualHash: string) => {
+  const expected = Buffer.from(expectedHash)
+  const actual = Buffer.from(actualHash)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export type TokenPairSessionOptions<UserData> = JwtSigningOptions & {
+  /**
+   * 保存 refresh token 家族的后端，默认使用内存后端
+   */
+  backend?: KeyValueBackend
+  /**
+   * 后端 key 的前缀，默认 'token-family:'
+   */
+  prefix?: string
+  /**
+   * access token 有效时间（毫秒），默认15分钟
+   */
+  accessTokenMaxAge?: number
+  /**
+   * refresh token 有效时间（毫秒），默认7天，轮换时不会延长
+   */
+  refreshTokenMaxAge?: number
+  /**
+   * 读取和写入 access token 的请求头/响应头，默认 'authorization'
+   */
+  accessTokenHeader?: string
+  /**
+   * 读取和写入 refresh token 的请求头/响应头，默认 'x-refresh-token'
+   */
+  refreshTokenHeader?: string
+  /**
+   * 设置后 refresh token 改为通过该 cookie 读取和下发
+   */
+  refreshTokenCookieKey?: string
+  cookieOptions?: CookieOptions
+  dataCreator?: (request: RequestInfo, sessionData?: UserData) => UserData
+}
+
+/**
+ * tokenPairSession: 创建配套使用的 access/refresh token 解析器和存储
+ * access token 为短期有效的 JWT，refresh token 为长期有效、每次使用后轮换的随机值
+ * 当 access token 过期时，store.get 会使用 refresh token 透明地签发新的 token 对
+ * 已轮换的 refresh token 被再次使用时，会撤销整个 token 家族
+ */
+export const tokenPairSession = <UserData>(
+  tokenPairSessionOptions: TokenPairSessionOptions<UserData>,
+): { sessionParser: SessionParser<TokenPair>; sessionStore: SessionStore<UserData, TokenPair> } => {
+  const options = {
+    backend: memoryKeyValueBackend(),
+    prefix: 'token-family:',
+    accessTokenMaxAge: 15 * oneMinute * 1000,
+    refreshTokenMaxAge: 7 * oneDay * 1000,
+    accessTokenHeader: 'authorization',
+    refreshTokenHeader: 'x-refresh-token',
+    cookieOptions: { httpOnly: true, overwrite: true } as CookieOptions,
+    ...tokenPairSessionOptions,
+  }
+
+  const { issueToken, verifyToken } = createJwtCodec(options)
+  const { backend } = options
+  const toKey = (familyId: string) => `${options.prefix}${familyId}`
+
+  const readFamily = async (familyId: string) => {
+    const storedFamily = await backend.get(toKey(familyId))
+    if (storedFamily === null) return null
+    return JSON.parse(storedFamily) as TokenFamily<UserData>
+  }
+
+  const writeFamily = (familyId: string, family: TokenFamily<UserData>) => {
+    return backend.set(toKey(familyId), JSON.stringify(family), family.expires - Date.now())
+  }
+
+  // refresh token 的格式为 `<familyId>.<随机值>`
+  const createRefreshToken = (familyId: string) => `${familyId}.${randomBytes(32).toString('base64url')}`
+
+  const issueAccessToken = (familyId: string, userData: UserData) => {
+    return issueToken({ ...(userData as Record<string, unknown>), fid: familyId }, Date.now() + options.accessTokenMaxAge)
+  }
+
+  const toUserData = (claims: Record<string, unknown>) => {
+    const userData: Record<string, unknown> = { ...claims }
+    for (const claim of accessTokenClaims) {
+      delete userData[claim]
+    }
+    return userData as UserData
+  }
+
+  // 新的 token 需要下发给客户端
+  const deliver = async () => {
+    const sessionHeader = await sessionParser.set()
+    sessionHeaderCtx.set([...sessionHeaderCtx.get(), sessionHeader])
+  }
+
+  // 使用 refresh token 轮换出新的 token 对，无效或被重复使用时返回 null
+  const rotate = async (refreshToken: string) => {
+    const separatorIndex = refreshToken.indexOf('.')
+    if (separatorIndex <= 0) return null
+    const familyId = refreshToken.slice(0, separatorIndex)
+
+    const family = await readFamily(familyId)
+    if (!family) return null
+
+    const refreshTokenHash = hashToken(refreshToken)
+    const rotatedTokenHashes = family.rotatedTokenHashes ?? []
+    if (!hashEquals(family.refreshTokenHash, refreshTokenHash)) {
+      if (rotatedTokenHashes.some((rotatedTokenHash) => hashEquals(rotatedTokenHash, refreshTokenHash))) {
+        // 已轮换的 refresh token 被再次使用，撤销整个家族
+        await backend.del(toKey(familyId))
+      }
+      // 伪造的 refresh token 不影响 token 家族，避免仅凭 access token 中的 fid 即可强制下线
+      return null
+    }
+
+    const nextRefreshToken = createRefreshToken(familyId)
+    await writeFamily(familyId, {
+      ...family,
+      refreshTokenHash: hashToken(nextRefreshToken),
+      rotatedTokenHashes: [...rotatedTokenHashes, refreshTokenHash],
+    })
+
+    const accessToken = issueAccessToken(familyId, family.data)
+    pendingTokenPairCtx.set({
+      accessToken: accessToken.token,
+      accessTokenExpiresTime: accessToken.expiresTime,
+      refreshToken: nextRefreshToken,
+      refreshTokenExpiresTime: family.expires,
+    })
+    sessionMetaDataCtx.set({ sessionId: familyId, expiresTime: family.expires })
+
+    return family.data
+  }
+
+  const sessionParser: SessionParser<TokenPair> = {
+    async get(requestInfo) {
+      const prefix = 'bearer '
+      const authorization = requestInfo.headers?.[options.accessTokenHeader.toLowerCase()]
+      const accessToken =
+        typeof authorization === 'string' && authorization.toLowerCase().startsWith(prefix)
+          ? authorization.slice(prefix.length).trim()
+          : undefined
+
+      const refreshTokenHeader = requestInfo.headers?.[options.refreshTokenHeader.toLowerCase()]
+      const refreshToken = options.refreshTokenCookieKey
+        ? requestInfo.cookies?.[options.refreshTokenCookieKey]
+        : typeof refreshTokenHeader === 'string'
+          ? refreshTokenHeader
+          : undefined
+
+      if (!accessToken && !refreshToken) {
+        return null
+      }
+      return { accessToken: accessToken || undefined, refreshToken: refreshToken || undefined }
+    },
+
+    async set() {
+      const pendingTokenPair = pendingTokenPairCtx.get()
+      if (!pendingTokenPair) {
+        return Response
+      }
+      pendingTokenPairCtx.set(undefined)
+
+      let response = Response.header(options.accessTokenHeader, `Bearer ${pendingTokenPair.accessToken}`)
+      if (pendingTokenPair.refreshToken) {
+        if (options.refreshTokenCookieKey) {
+          const cookieOptions = {
+            ...options.cookieOptions,
+            expires: new Date(pendingTokenPair.refreshTokenExpiresTime!),
+          } satisfies SetOption
+          response = response.cookie(options.refreshTokenCookieKey, pendingTokenPair.refreshToken, cookieOptions)
+        } else {
+          response = response.header(options.refreshTokenHeader, pendingTokenPair.refreshToken)
+        }
+      }
+      return response
+    },
+
+    async remove() {
+      if (options.refreshTokenCookieKey) {
+        return Response.cookie(options.refreshTokenCookieKey, '', {
+          ...options.cookieOptions,
+          expires: new Date(0), // Expire immediately
+          maxAge: 0,
+        })
+      }
+      return Response.header(options.accessTokenHeader, '').header(options.refreshTokenHeader, '')
+    },
+  }
+
+  const sessionStore: SessionStore<UserData, TokenPair> = {
+    async create(userData?: UserData) {
+      try {
+        // 重新生成时撤销旧的 token 家族
+        const previousSessionMeta = sessionMetaDataCtx.get()
+        if (previousSessionMeta) {
+          await backend.del(toKey(previousSessionMeta.sessionId))
+        }
+
+        const initialData = options.dataCreator
+          ? options.dataCreator(useRequestInfo(), userData)
+          : userData || ({} as UserData)
+
+        const familyId = ulid()
+        const expires = Date.now() + options.refreshTokenMaxAge
+        const refreshToken = createRefreshToken(familyId)
+        await writeFamily(familyId, { data: initialData, refreshTokenHash: hashToken(refreshToken), expires })
+
+        const accessToken = issueAccessToken(familyId, initialData)
+        pendingTokenPairCtx.set({
+          accessToken: accessToken.token,
+          accessTokenExpiresTime: accessToken.expiresTime,
+          refreshToken,
+          refreshTokenExpiresTime: expires,
+        })
+        sessionMetaDataCtx.set({ sessionId: familyId, expiresTime: expires })
+
+        return initialData
+      } catch (error) {
+        return undefined
+      }
+    },
+    async get(tokenPair: TokenPair) {
+      try {
+        const claims = tokenPair.accessToken ? verifyToken(tokenPair.accessToken) : null
+        if (claims && typeof claims['fid'] === 'string') {
+          // access token 有效时无需访问后端
+          sessionMetaDataCtx.set({ sessionId: claims['fid'], expiresTime: claims.exp! * 1000 })
+          return toUserData(claims)
+        }
+
+        if (!tokenPair.refreshToken) {
+          return null
+        }
+
+        const userData = await rotate(tokenPair.refreshToken)
+        if (userData === null) {
+          return null
+        }
+        await deliver()
+        return userData
+      } catch (error) {
+        return undefined
+      }
+    },
+    async set(sessionData: UserData) {
+      try {
+        const sessionMeta = sessionMetaDataCtx.get()
+        if (!sessionMeta) {
+          return false
+        }
+
+        // token 家族已被撤销时无法保存
+        const family = await readFamily(sessionMeta.sessionId)
+        if (!family) {
+          return false
+        }
+        await writeFamily(sessionMeta.sessionId, { ...family, data: sessionData })
+
+        // 数据变化后签发新的 access token，refresh token 保持不变
+        const accessToken = issueAccessToken(sessionMeta.sessionId, sessionData)
+        pendingTokenPairCtx.set({
+          ...pendingTokenPairCtx.get(),
+          accessToken: accessToken.token,
+          accessTokenExpiresTime: accessToken.expiresTime,
+        })
+        // token 家族的 id 和过期时间不变，中间件不会重新下发凭证
+        await deliver()
+
+        return true
+      } catch (error) {
+        return undefined
+      }
+    },
+    async touch() {
+      // access token 过期后由 refresh token 轮换，无需续期
+      return sessionMetaDataCtx.get() !== undefined
+    },
+    async destroy() {
+      try {
+        const sessionMeta = sessionMetaDataCtx.get()
+        if (!sessionMeta) {
+          return false
+        }
+
+        await backend.del(toKey(sessionMeta.sessionId))
+        sessionMetaDataCtx.set(undefined)
+        pendingTokenPairCtx.set(undefined)
+        return true
+      } catch (error) {
+        return undefined
+      }
+    },
+  }
+
+  return { sessionParser, sessionStore }
+}
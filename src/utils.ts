@@ -14,3 +14,28 @@ export const oneDay = oneHour * 24
  * one week in seconds
  */
 export const oneWeek = oneDay * 7
+
+export type SessionExpirationOptions = {
+  /**
+   * session 有效时间（毫秒）
+   */
+  maxAge: number
+  rolling?: boolean
+  renew?: boolean
+  renewBefore: number
+  absoluteMaxAge?: number
+}
+
+/**
+ * 根据 rolling/renew 模式计算新的过期时间，且不超过 absoluteMaxAge 限定的最长有效时间
+ * 不记录创建时间的存储（如 JWT）不传 createdAt，此时不做限制
+ */
+export const nextExpiresTime = (options: SessionExpirationOptions, expiresTime: number, createdAt?: number) => {
+  const now = Date.now()
+  let nextTime = expiresTime
+  if (options.rolling || (options.renew && expiresTime - now < options.renewBefore)) {
+    nextTime = now + options.maxAge
+  }
+  if (!options.absoluteMaxAge || createdAt === undefined) return nextTime
+  return Math.min(nextTime, createdAt + options.absoluteMaxAge)
+}